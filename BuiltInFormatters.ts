@@ -0,0 +1,315 @@
+import { format as formatSqlQuery } from "sql-formatter";
+
+/**
+ * Indentation options handed to built-in formatters
+ */
+export interface BuiltInFormatOptions {
+	tabWidth: number;
+	useTabs: boolean;
+}
+
+/**
+ * A formatter that runs inside Obsidian (no external tools required)
+ */
+export interface BuiltInFormatter {
+	id: string;
+	name: string;
+	extensions: string[];
+	// Monaco language ids, for code without a file (e.g. code blocks)
+	languages: string[];
+	format(code: string, options: BuiltInFormatOptions): Promise<string>;
+}
+
+function indentUnit(options: BuiltInFormatOptions): string {
+	return options.useTabs ? "\t" : " ".repeat(options.tabWidth);
+}
+
+/**
+ * Join formatted lines, collapsing trailing blank lines into a single final newline
+ */
+function joinLines(lines: string[]): string {
+	while (lines.length > 0 && lines[lines.length - 1] === "") lines.pop();
+	return lines.length > 0 ? lines.join("\n") + "\n" : "";
+}
+
+export const sqlFormatter: BuiltInFormatter = {
+	id: "sql-formatter",
+	name: "sql-formatter",
+	extensions: ["sql"],
+	languages: ["sql"],
+	async format(code, options) {
+		return formatSqlQuery(code, {
+			language: "sql",
+			tabWidth: options.tabWidth,
+			useTabs: options.useTabs,
+			keywordCase: "preserve",
+		});
+	},
+};
+
+/**
+ * TOML formatter: normalizes `key = value` spacing and table headers,
+ * separates tables with one blank line and indents multi-line arrays
+ * Values and comments are kept as written
+ */
+export const tomlFormatter: BuiltInFormatter = {
+	id: "toml",
+	name: "TOML",
+	extensions: ["toml"],
+	languages: ["toml"],
+	async format(code, options) {
+		const unit = indentUnit(options);
+		const output: string[] = [];
+		let multilineString: string | null = null;
+		let arrayDepth = 0;
+		let pendingBlank = false;
+
+		for (const rawLine of code.split(/\r?\n/)) {
+			// Multi-line strings are copied verbatim
+			if (multilineString) {
+				output.push(rawLine);
+				if (countDelimiters(rawLine, multilineString) % 2 === 1) multilineString = null;
+				continue;
+			}
+
+			const line = rawLine.trim();
+			if (!line) {
+				pendingBlank = output.length > 0;
+				continue;
+			}
+
+			const header = arrayDepth === 0 ? line.match(/^(\[\[?)\s*([^\]]+?)\s*(\]\]?)\s*(#.*)?$/) : null;
+			if (header) {
+				// Tables always start after a blank line
+				if (output.length > 0) output.push("");
+				const comment = header[4] ? ` ${header[4]}` : "";
+				output.push(`${header[1]}${header[2].replace(/\s*\.\s*/g, ".")}${header[3]}${comment}`);
+				pendingBlank = false;
+				continue;
+			}
+
+			if (pendingBlank && output[output.length - 1] !== "") output.push("");
+			pendingBlank = false;
+
+			if (line.startsWith("#")) {
+				output.push(unit.repeat(arrayDepth) + line);
+				continue;
+			}
+
+			let text = line;
+			if (arrayDepth === 0) {
+				const separator = findKeySeparator(line);
+				if (separator !== -1) {
+					const key = line.substring(0, separator).trim();
+					const value = line.substring(separator + 1).trim();
+					text = `${key} = ${value}`;
+				}
+			}
+
+			const scan = scanTomlValue(text);
+			const depth = text.startsWith("]") ? Math.max(arrayDepth - 1, 0) : arrayDepth;
+			output.push(unit.repeat(depth) + text);
+			arrayDepth = Math.max(arrayDepth + scan.depthDelta, 0);
+			multilineString = scan.openString;
+		}
+
+		return joinLines(output);
+	},
+};
+
+/**
+ * Find the `=` separating a key from its value, ignoring quoted keys
+ */
+function findKeySeparator(line: string): number {
+	let quote: string | null = null;
+	for (let i = 0; i < line.length; i++) {
+		const char = line[i];
+		if (quote) {
+			if (char === "\\" && quote === '"') i++;
+			else if (char === quote) quote = null;
+		} else if (char === '"' || char === "'") {
+			quote = char;
+		} else if (char === "=") {
+			return i;
+		} else if (char === "#") {
+			return -1;
+		}
+	}
+	return -1;
+}
+
+function countDelimiters(line: string, delimiter: string): number {
+	return line.split(delimiter).length - 1;
+}
+
+/**
+ * Track bracket depth and unterminated multi-line strings in a TOML line
+ */
+function scanTomlValue(text: string): { depthDelta: number; openString: string | null } {
+	let depthDelta = 0;
+	let i = 0;
+
+	while (i < text.length) {
+		const char = text[i];
+
+		if (char === "#") break;
+
+		if (text.startsWith('"""', i) || text.startsWith("'''", i)) {
+			const delimiter = text.substring(i, i + 3);
+			const close = text.indexOf(delimiter, i + 3);
+			if (close === -1) return { depthDelta, openString: delimiter };
+			i = close + 3;
+			continue;
+		}
+
+		if (char === '"' || char === "'") {
+			i++;
+			while (i < text.length && text[i] !== char) {
+				if (char === '"' && text[i] === "\\") i++;
+				i++;
+			}
+			i++;
+			continue;
+		}
+
+		if (char === "[" || char === "{") depthDelta++;
+		if (char === "]" || char === "}") depthDelta--;
+		i++;
+	}
+
+	return { depthDelta, openString: null };
+}
+
+// Lua keywords that open or close a block
+const LUA_OPENERS = new Set(["function", "do", "then", "repeat", "{", "(", "["]);
+const LUA_CLOSERS = new Set(["end", "until", "}", ")", "]"]);
+
+/**
+ * Lua re-indenter: indents block keywords and brackets, trims trailing whitespace
+ * A line indents the following ones by at most one level, however many blocks it opens
+ * (`foo(function()`, `setmetatable({}, {`); the closers of those blocks dedent it again
+ * Code inside a line is left untouched, long strings and comments are kept verbatim
+ */
+export const luaFormatter: BuiltInFormatter = {
+	id: "lua",
+	name: "Lua (indentation)",
+	extensions: ["lua"],
+	languages: ["lua"],
+	async format(code, options) {
+		const unit = indentUnit(options);
+		const output: string[] = [];
+		// Open blocks, with the indentation each one adds (0 or 1)
+		const blocks: number[] = [];
+		let longBracket: string | null = null;
+
+		for (const rawLine of code.split(/\r?\n/)) {
+			if (longBracket) {
+				output.push(rawLine.replace(/\s+$/, ""));
+				const close = rawLine.indexOf(longBracket);
+				if (close !== -1) {
+					longBracket = scanLua(rawLine.substring(close + longBracket.length)).openLongBracket;
+				}
+				continue;
+			}
+
+			const line = rawLine.trim();
+			if (!line) {
+				output.push("");
+				continue;
+			}
+
+			const scan = scanLua(line);
+
+			// Leading closers (`end`, `}`, `else`, ...) dedent their own line by the blocks they close
+			let dedent = 0;
+			let closed = 0;
+			for (const token of scan.tokens) {
+				const block = blocks[blocks.length - 1 - closed];
+				if (block === undefined) break;
+				if (LUA_CLOSERS.has(token)) {
+					dedent += block;
+					closed++;
+				} else if (token === "else" || token === "elseif") {
+					dedent += block;
+					break;
+				} else {
+					break;
+				}
+			}
+
+			const level = blocks.reduce((sum, block) => sum + block, 0);
+			output.push(unit.repeat(Math.max(level - dedent, 0)) + line);
+
+			// Only the first block opened on this line (and still open) indents
+			let lineStart = blocks.length;
+			for (const token of scan.tokens) {
+				if (LUA_OPENERS.has(token)) {
+					blocks.push(blocks.slice(lineStart).includes(1) ? 0 : 1);
+				} else if (LUA_CLOSERS.has(token) || token === "elseif") {
+					blocks.pop();
+					lineStart = Math.min(lineStart, blocks.length);
+				}
+			}
+			longBracket = scan.openLongBracket;
+		}
+
+		return joinLines(output);
+	},
+};
+
+/**
+ * Collect block tokens outside strings and comments, and report an unterminated long bracket
+ * (`[[`, `[==[` or `--[[`) so the following lines can be skipped
+ */
+function scanLua(line: string): { tokens: string[]; openLongBracket: string | null } {
+	const tokens: string[] = [];
+	let i = 0;
+
+	while (i < line.length) {
+		const char = line[i];
+
+		if (line.startsWith("--", i)) {
+			const longComment = line.substring(i + 2).match(/^\[(=*)\[/);
+			if (!longComment) break;
+			const closing = `]${longComment[1]}]`;
+			const close = line.indexOf(closing, i + 2 + longComment[0].length);
+			if (close === -1) return { tokens, openLongBracket: closing };
+			i = close + closing.length;
+			continue;
+		}
+
+		const longString = line.substring(i).match(/^\[(=*)\[/);
+		if (longString) {
+			const closing = `]${longString[1]}]`;
+			const close = line.indexOf(closing, i + longString[0].length);
+			if (close === -1) return { tokens, openLongBracket: closing };
+			i = close + closing.length;
+			continue;
+		}
+
+		if (char === '"' || char === "'") {
+			i++;
+			while (i < line.length && line[i] !== char) {
+				if (line[i] === "\\") i++;
+				i++;
+			}
+			i++;
+			continue;
+		}
+
+		if (/[A-Za-z_]/.test(char)) {
+			const word = line.substring(i).match(/^[A-Za-z_][A-Za-z0-9_]*/)![0];
+			// Field names like `t.end` are not keywords
+			if (line[i - 1] !== "." && line[i - 1] !== ":") tokens.push(word);
+			i += word.length;
+			continue;
+		}
+
+		if ("{}()[]".includes(char)) tokens.push(char);
+		i++;
+	}
+
+	return { tokens, openLongBracket: null };
+}
+
+export const BUILT_IN_FORMATTERS: BuiltInFormatter[] = [sqlFormatter, tomlFormatter, luaFormatter];
@@ -0,0 +1,349 @@
+/**
+ * Offline JSON schemas for common config files (JSON and YAML), condensed from SchemaStore
+ * They cover the frequently edited properties for completion, hovers and validation
+ * and allow anything else
+ */
+
+export interface BundledJsonSchema {
+	uri: string;
+	fileMatch: string[];
+	schema: any;
+}
+
+const stringArray = { type: "array", items: { type: "string" } };
+const stringMap = { type: "object", additionalProperties: { type: "string" } };
+
+const packageJsonSchema = {
+	title: "package.json",
+	type: "object",
+	properties: {
+		name: {
+			type: "string",
+			description: "The name of the package",
+			maxLength: 214,
+			pattern: "^(?:@[a-z0-9-*~][a-z0-9-*._~]*/)?[a-z0-9-~][a-z0-9-._~]*$",
+		},
+		version: { type: "string", description: "Version of the package, parseable by node-semver" },
+		description: { type: "string", description: "Short description shown in `npm search`" },
+		keywords: { ...stringArray, description: "Keywords shown in `npm search`" },
+		homepage: { type: "string", description: "URL of the project homepage" },
+		license: { type: "string", description: "SPDX license expression, or `UNLICENSED`" },
+		author: {
+			description: "The person who wrote the package",
+			oneOf: [
+				{ type: "string" },
+				{
+					type: "object",
+					required: ["name"],
+					properties: { name: { type: "string" }, email: { type: "string" }, url: { type: "string" } },
+				},
+			],
+		},
+		type: { enum: ["commonjs", "module"], description: "How `.js` files in the package are interpreted" },
+		main: { type: "string", description: "Entry point of the package" },
+		module: { type: "string", description: "ES module entry point, used by bundlers" },
+		types: { type: "string", description: "Entry point of the TypeScript declarations" },
+		bin: { oneOf: [{ type: "string" }, stringMap], description: "Executables installed into PATH" },
+		files: { ...stringArray, description: "Files included when the package is published" },
+		exports: { description: "Entry points exposed to importers, by condition", type: ["string", "object", "array", "null"] },
+		repository: {
+			description: "Where the code lives",
+			oneOf: [
+				{ type: "string" },
+				{ type: "object", properties: { type: { type: "string" }, url: { type: "string" }, directory: { type: "string" } } },
+			],
+		},
+		scripts: { ...stringMap, description: "Commands run with `npm run <name>`" },
+		dependencies: { ...stringMap, description: "Packages required at runtime" },
+		devDependencies: { ...stringMap, description: "Packages required for development and tests" },
+		peerDependencies: { ...stringMap, description: "Packages the host project must provide" },
+		optionalDependencies: { ...stringMap, description: "Packages installed when available" },
+		engines: { ...stringMap, description: "Supported versions of node or npm" },
+		private: { type: "boolean", description: "Prevents the package from being published" },
+		workspaces: { ...stringArray, description: "Folders containing workspace packages" },
+	},
+};
+
+const targets = ["es3", "es5", "es6", "es2015", "es2016", "es2017", "es2018", "es2019", "es2020", "es2021", "es2022", "es2023", "esnext"];
+
+const compilerOptionsSchema = {
+	type: "object",
+	description: "Instructs the TypeScript compiler how to compile .ts files",
+	properties: {
+		target: { description: "JavaScript language version of the output", anyOf: [{ enum: targets }, { type: "string" }] },
+		module: {
+			description: "Module code generation",
+			anyOf: [{ enum: ["none", "commonjs", "amd", "umd", "system", "es6", "es2015", "es2020", "es2022", "esnext", "node16", "nodenext", "preserve"] }, { type: "string" }],
+		},
+		moduleResolution: {
+			description: "How modules are looked up",
+			anyOf: [{ enum: ["classic", "node", "node10", "node16", "nodenext", "bundler"] }, { type: "string" }],
+		},
+		jsx: { description: "How JSX is emitted", enum: ["preserve", "react", "react-native", "react-jsx", "react-jsxdev"] },
+		lib: { ...stringArray, description: "Library declaration files included in the compilation" },
+		strict: { type: "boolean", description: "Enable all strict type checking options" },
+		noImplicitAny: { type: "boolean", description: "Report expressions and declarations with an implied `any` type" },
+		strictNullChecks: { type: "boolean", description: "`null` and `undefined` are not in the domain of every type" },
+		noUnusedLocals: { type: "boolean", description: "Report unused local variables" },
+		noUnusedParameters: { type: "boolean", description: "Report unused parameters" },
+		allowJs: { type: "boolean", description: "Allow JavaScript files to be compiled" },
+		checkJs: { type: "boolean", description: "Report errors in JavaScript files" },
+		esModuleInterop: { type: "boolean", description: "Emit helpers for importing CommonJS modules" },
+		skipLibCheck: { type: "boolean", description: "Skip type checking of declaration files" },
+		declaration: { type: "boolean", description: "Generate .d.ts files" },
+		sourceMap: { type: "boolean", description: "Generate .map files" },
+		noEmit: { type: "boolean", description: "Do not emit output" },
+		baseUrl: { type: "string", description: "Base directory to resolve non-relative module names" },
+		paths: {
+			type: "object",
+			description: "Module name to path mappings, relative to baseUrl",
+			additionalProperties: stringArray,
+		},
+		rootDir: { type: "string", description: "Root directory of input files" },
+		outDir: { type: "string", description: "Redirect output structure to this directory" },
+		types: { ...stringArray, description: "Type declaration packages to include" },
+		typeRoots: { ...stringArray, description: "Folders containing type declarations" },
+	},
+};
+
+const tsconfigSchema = {
+	title: "tsconfig.json",
+	type: "object",
+	allowComments: true,
+	allowTrailingCommas: true,
+	properties: {
+		extends: {
+			description: "Path or package name of a configuration file to inherit from",
+			oneOf: [{ type: "string" }, stringArray],
+		},
+		compilerOptions: compilerOptionsSchema,
+		files: { ...stringArray, description: "Files included in the program" },
+		include: { ...stringArray, description: "Glob patterns of files included in the program" },
+		exclude: { ...stringArray, description: "Glob patterns of files excluded from `include`" },
+		references: {
+			type: "array",
+			description: "Referenced projects",
+			items: { type: "object", required: ["path"], properties: { path: { type: "string" } } },
+		},
+	},
+};
+
+const ruleLevel = {
+	description: "Rule severity, optionally followed by rule options",
+	anyOf: [
+		{ enum: ["off", "warn", "error", 0, 1, 2] },
+		{ type: "array", items: [{ enum: ["off", "warn", "error", 0, 1, 2] }] },
+	],
+};
+
+const eslintrcSchema = {
+	title: "ESLint configuration",
+	type: "object",
+	allowComments: true,
+	allowTrailingCommas: true,
+	properties: {
+		root: { type: "boolean", description: "Stop looking for configuration in parent folders" },
+		extends: { description: "Configurations to extend", oneOf: [{ type: "string" }, stringArray] },
+		parser: { type: "string", description: "Parser used to turn code into an AST" },
+		parserOptions: {
+			type: "object",
+			description: "Options passed to the parser",
+			properties: {
+				ecmaVersion: { anyOf: [{ type: "number" }, { enum: ["latest"] }] },
+				sourceType: { enum: ["script", "module", "commonjs"] },
+				project: { oneOf: [{ type: "string" }, stringArray, { type: "boolean" }] },
+			},
+		},
+		env: { type: "object", description: "Predefined global variables", additionalProperties: { type: "boolean" } },
+		globals: {
+			type: "object",
+			description: "Additional global variables",
+			additionalProperties: { enum: ["readonly", "writable", "off", true, false] },
+		},
+		plugins: { ...stringArray, description: "Plugins providing rules, configs and processors" },
+		rules: { type: "object", description: "Rule configuration", additionalProperties: ruleLevel },
+		ignorePatterns: { description: "Files to ignore", oneOf: [{ type: "string" }, stringArray] },
+		overrides: {
+			type: "array",
+			description: "Configuration applied to matching files",
+			items: {
+				type: "object",
+				required: ["files"],
+				properties: {
+					files: { oneOf: [{ type: "string" }, stringArray] },
+					excludedFiles: { oneOf: [{ type: "string" }, stringArray] },
+					rules: { type: "object", additionalProperties: ruleLevel },
+				},
+			},
+		},
+	},
+};
+
+const obsidianManifestSchema = {
+	title: "Obsidian plugin manifest",
+	type: "object",
+	required: ["id", "name", "version", "minAppVersion", "description", "author"],
+	properties: {
+		id: {
+			type: "string",
+			description: "Unique plugin id; must not contain \"obsidian\" and must match the plugin folder name",
+			pattern: "^[a-z0-9-_]+$",
+		},
+		name: { type: "string", description: "Display name of the plugin" },
+		version: { type: "string", description: "Plugin version (x.y.z)", pattern: "^[0-9]+\\.[0-9]+\\.[0-9]+$" },
+		minAppVersion: { type: "string", description: "Minimum Obsidian version the plugin supports" },
+		description: { type: "string", description: "Short description shown in the community plugins list" },
+		author: { type: "string", description: "Name of the author" },
+		authorUrl: { type: "string", description: "Website of the author" },
+		fundingUrl: {
+			description: "Where users can support the author",
+			oneOf: [{ type: "string" }, stringMap],
+		},
+		isDesktopOnly: { type: "boolean", description: "Whether the plugin uses NodeJS or Electron APIs" },
+	},
+};
+
+const stringOrList = { oneOf: [{ type: "string" }, stringArray] };
+const environment = {
+	description: "Environment variables",
+	oneOf: [{ type: "object", additionalProperties: { type: ["string", "number", "boolean", "null"] } }, stringArray],
+};
+
+const composeService = {
+	type: "object",
+	properties: {
+		image: { type: "string", description: "Image to start the container from" },
+		build: {
+			description: "Build configuration, or the path of the build context",
+			oneOf: [
+				{ type: "string" },
+				{ type: "object", properties: { context: { type: "string" }, dockerfile: { type: "string" }, args: environment, target: { type: "string" } } },
+			],
+		},
+		container_name: { type: "string", description: "Custom container name" },
+		command: { ...stringOrList, description: "Overrides the default command of the image" },
+		entrypoint: { ...stringOrList, description: "Overrides the default entrypoint of the image" },
+		environment,
+		env_file: { ...stringOrList, description: "Files to read environment variables from" },
+		ports: { type: "array", description: "Exposed ports (HOST:CONTAINER)", items: { type: ["string", "number", "object"] } },
+		expose: { type: "array", description: "Ports exposed to linked services only", items: { type: ["string", "number"] } },
+		volumes: { type: "array", description: "Mounted host paths or named volumes", items: { type: ["string", "object"] } },
+		depends_on: {
+			description: "Services started before this one",
+			oneOf: [stringArray, { type: "object", additionalProperties: { type: "object", properties: { condition: { enum: ["service_started", "service_healthy", "service_completed_successfully"] } } } }],
+		},
+		restart: { enum: ["no", "always", "on-failure", "unless-stopped"], description: "Restart policy" },
+		networks: { description: "Networks to join", oneOf: [stringArray, { type: "object" }] },
+		healthcheck: {
+			type: "object",
+			description: "Container health check",
+			properties: {
+				test: stringOrList,
+				interval: { type: "string" },
+				timeout: { type: "string" },
+				retries: { type: "number" },
+				start_period: { type: "string" },
+				disable: { type: "boolean" },
+			},
+		},
+		labels: { description: "Container labels", oneOf: [stringMap, stringArray] },
+		working_dir: { type: "string", description: "Working directory of the command" },
+		user: { type: "string", description: "User the command runs as" },
+		profiles: { ...stringArray, description: "Profiles enabling this service" },
+	},
+};
+
+const composeSchema = {
+	title: "Compose file",
+	type: "object",
+	properties: {
+		version: { type: "string", description: "Obsolete: ignored by Compose v2" },
+		name: { type: "string", description: "Project name" },
+		services: { type: "object", description: "Containers of the application", additionalProperties: composeService },
+		volumes: { type: "object", description: "Named volumes", additionalProperties: { type: ["object", "null"] } },
+		networks: { type: "object", description: "Networks", additionalProperties: { type: ["object", "null"] } },
+		configs: { type: "object", additionalProperties: { type: ["object", "null"] } },
+		secrets: { type: "object", additionalProperties: { type: ["object", "null"] } },
+	},
+};
+
+// Actions converts numbers and booleans to strings
+const workflowEnv = { type: "object", additionalProperties: { type: ["string", "number", "boolean"] } };
+
+const workflowStep = {
+	type: "object",
+	properties: {
+		id: { type: "string", description: "Identifier to reference the step's outputs" },
+		name: { type: "string", description: "Name displayed on GitHub" },
+		uses: { type: "string", description: "Action to run (owner/repo@ref, ./path or docker://image)" },
+		run: { type: "string", description: "Command line programs to run" },
+		with: { type: "object", description: "Inputs of the action", additionalProperties: { type: ["string", "number", "boolean"] } },
+		env: { ...workflowEnv, description: "Environment variables for the step" },
+		if: { type: ["string", "boolean"], description: "Condition for running the step" },
+		shell: { anyOf: [{ enum: ["bash", "pwsh", "python", "sh", "cmd", "powershell"] }, { type: "string" }], description: "Shell for `run`" },
+		"working-directory": { type: "string", description: "Working directory for `run`" },
+		"continue-on-error": { type: ["boolean", "string"], description: "Let the job pass when this step fails" },
+		"timeout-minutes": { type: ["number", "string"], description: "Maximum minutes before the step is cancelled" },
+	},
+};
+
+const workflowJob = {
+	type: "object",
+	properties: {
+		name: { type: "string", description: "Name displayed on GitHub" },
+		"runs-on": { description: "Runner labels (ubuntu-latest, windows-latest, macos-latest, ...)", type: ["string", "array", "object"] },
+		needs: { ...stringOrList, description: "Jobs that must succeed before this one runs" },
+		if: { type: ["string", "boolean"], description: "Condition for running the job" },
+		permissions: { description: "GITHUB_TOKEN permissions", type: ["string", "object"] },
+		environment: { description: "Deployment environment", type: ["string", "object"] },
+		env: { ...workflowEnv, description: "Environment variables for all steps" },
+		strategy: {
+			type: "object",
+			description: "Build matrix",
+			properties: { matrix: { type: ["object", "string"] }, "fail-fast": { type: ["boolean", "string"] }, "max-parallel": { type: ["number", "string"] } },
+		},
+		steps: { type: "array", description: "Sequence of tasks", items: workflowStep },
+		uses: { type: "string", description: "Reusable workflow to call" },
+		with: { type: "object", description: "Inputs of the reusable workflow" },
+		secrets: { description: "Secrets passed to the reusable workflow", type: ["string", "object"] },
+		outputs: { ...stringMap, description: "Outputs available to dependent jobs" },
+		"timeout-minutes": { type: ["number", "string"], description: "Maximum minutes before the job is cancelled" },
+		"continue-on-error": { type: ["boolean", "string"] },
+		container: { description: "Container to run the steps in", type: ["string", "object"] },
+		services: { type: "object", description: "Service containers" },
+		concurrency: { type: ["string", "object"] },
+	},
+};
+
+const workflowSchema = {
+	title: "GitHub Actions workflow",
+	type: "object",
+	required: ["on", "jobs"],
+	properties: {
+		name: { type: "string", description: "Name of the workflow" },
+		"run-name": { type: "string", description: "Name of the workflow runs" },
+		on: {
+			description: "Events that trigger the workflow",
+			oneOf: [{ type: "string" }, stringArray, { type: "object" }],
+		},
+		permissions: { description: "Default GITHUB_TOKEN permissions", type: ["string", "object"] },
+		env: { ...workflowEnv, description: "Environment variables for all jobs" },
+		defaults: { type: "object", description: "Default settings for all jobs" },
+		concurrency: { type: ["string", "object"], description: "Concurrency group" },
+		jobs: { type: "object", description: "Jobs of the workflow", additionalProperties: workflowJob },
+	},
+};
+
+export const BUNDLED_JSON_SCHEMAS: BundledJsonSchema[] = [
+	{ uri: "bundled-schema://package.json", fileMatch: ["package.json"], schema: packageJsonSchema },
+	{ uri: "bundled-schema://tsconfig.json", fileMatch: ["tsconfig.json", "tsconfig.*.json", "jsconfig.json"], schema: tsconfigSchema },
+	{ uri: "bundled-schema://eslintrc.json", fileMatch: [".eslintrc", ".eslintrc.json"], schema: eslintrcSchema },
+	{ uri: "bundled-schema://obsidian-manifest.json", fileMatch: ["manifest.json"], schema: obsidianManifestSchema },
+	// YAML (see YamlLanguage)
+	{
+		uri: "bundled-schema://compose.json",
+		fileMatch: ["docker-compose.yml", "docker-compose.yaml", "docker-compose.*.yml", "docker-compose.*.yaml", "compose.yml", "compose.yaml"],
+		schema: composeSchema,
+	},
+	{ uri: "bundled-schema://github-workflow.json", fileMatch: ["**/.github/workflows/*.{yml,yaml}"], schema: workflowSchema },
+];
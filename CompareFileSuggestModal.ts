@@ -0,0 +1,50 @@
+import { FuzzySuggestModal, TFile } from "obsidian";
+import MonacoPrettierPlugin from "./main";
+
+/**
+ * A comparison source: a vault file or the current clipboard contents
+ */
+export type CompareSource = { type: "file"; file: TFile } | { type: "clipboard" };
+
+/**
+ * Fuzzy picker for choosing a diff source (vault code files, optionally the clipboard)
+ */
+export class CompareFileSuggestModal extends FuzzySuggestModal<CompareSource> {
+	constructor(
+		private plugin: MonacoPrettierPlugin,
+		private allowClipboard: boolean,
+		private exclude: TFile | null,
+		private onChoose: (source: CompareSource) => void,
+		placeholder = "Select a file to compare"
+	) {
+		super(plugin.app);
+		this.setPlaceholder(placeholder);
+	}
+
+	getItems(): CompareSource[] {
+		const items: CompareSource[] = [];
+
+		if (this.allowClipboard) {
+			items.push({ type: "clipboard" });
+		}
+
+		const files = this.app.vault
+			.getFiles()
+			.filter((file) => file !== this.exclude && this.plugin.isCodeFile(file.extension))
+			.sort((a, b) => a.path.localeCompare(b.path));
+
+		for (const file of files) {
+			items.push({ type: "file", file });
+		}
+
+		return items;
+	}
+
+	getItemText(item: CompareSource): string {
+		return item.type === "clipboard" ? "📋 Clipboard" : item.file.path;
+	}
+
+	onChooseItem(item: CompareSource): void {
+		this.onChoose(item);
+	}
+}
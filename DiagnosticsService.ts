@@ -0,0 +1,313 @@
+import * as monaco from "monaco-editor";
+import type { ValidationError } from "./ValidationManager";
+import type { MonacoPrettierSettings } from "./settings";
+import { uriToVaultPath } from "./VaultUri";
+
+// Owner of every marker set by the providers
+const MARKER_OWNER = "monaco-prettier-diagnostics";
+const DEFAULT_INLINE_FONT = "'Cascadia Code', 'Fira Code', Consolas, monospace";
+
+/**
+ * What a provider is asked to validate
+ */
+export interface DiagnosticsContext {
+	model: monaco.editor.ITextModel;
+	// Vault path of the file, null for code blocks
+	path: string | null;
+	language: string;
+	code: string;
+	settings: MonacoPrettierSettings;
+	// No editor and no Monaco language workers (vault scans); providers should also
+	// cover the languages Monaco normally validates itself
+	headless: boolean;
+}
+
+/**
+ * A validator plugged into the diagnostics pipeline
+ */
+export interface DiagnosticsProvider {
+	// Unique ID of the provider
+	id: string;
+	// Shown as the marker source in hovers
+	source: string;
+	appliesTo(language: string, settings: MonacoPrettierSettings): boolean;
+	provideDiagnostics(context: DiagnosticsContext): Promise<ValidationError[]> | ValidationError[];
+}
+
+export interface CollectedDiagnostic extends ValidationError {
+	source: string;
+}
+
+interface Diagnostic extends CollectedDiagnostic {
+	// Lower wins when diagnostics overlap
+	priority: number;
+}
+
+/**
+ * Inline messages at the end of each line with a diagnostic, one renderer per editor
+ * Renders every marker of the model, including Monaco's own (TypeScript, JSON, CSS)
+ */
+class InlineDiagnosticsRenderer {
+	private widgets: monaco.editor.IContentWidget[] = [];
+	private disposables: monaco.IDisposable[] = [];
+
+	constructor(private editor: monaco.editor.IStandaloneCodeEditor, public settings: MonacoPrettierSettings) {
+		this.disposables.push(
+			monaco.editor.onDidChangeMarkers((uris) => {
+				const model = editor.getModel();
+				if (model && uris.some((uri) => uri.toString() === model.uri.toString())) {
+					this.render();
+				}
+			}),
+			editor.onDidChangeModel(() => this.render()),
+		);
+	}
+
+	render(): void {
+		this.clear();
+		const model = this.editor.getModel();
+		if (!model) return;
+
+		const diagnostics = dedupe(monaco.editor.getModelMarkers({ resource: model.uri }).map(fromMarker));
+
+		// Only the most severe message of each line
+		const byLine = new Map<number, Diagnostic>();
+		for (const diagnostic of diagnostics) {
+			const current = byLine.get(diagnostic.line);
+			if (!current || severityRank(diagnostic) < severityRank(current)) byLine.set(diagnostic.line, diagnostic);
+		}
+
+		byLine.forEach((diagnostic, lineNumber) => {
+			if (lineNumber > model.getLineCount()) return;
+			const widget = this.createWidget(diagnostic, lineNumber, model.getLineMaxColumn(lineNumber));
+			this.editor.addContentWidget(widget);
+			this.widgets.push(widget);
+		});
+
+		console.log(`Diagnostics: rendered ${this.widgets.length} inline messages`);
+	}
+
+	clear(): void {
+		this.widgets.forEach((widget) => this.editor.removeContentWidget(widget));
+		this.widgets = [];
+	}
+
+	dispose(): void {
+		this.clear();
+		this.disposables.forEach((disposable) => disposable.dispose());
+		this.disposables = [];
+	}
+
+	private createWidget(diagnostic: Diagnostic, lineNumber: number, column: number): monaco.editor.IContentWidget {
+		const isError = diagnostic.severity === "error";
+		const widgetId = `monaco-prettier-inline-${lineNumber}-${Date.now()}`;
+		const node = document.createElement("span");
+		node.className = isError ? "monaco-inline-error" : "monaco-inline-warning";
+		node.textContent = ` ⚠️ ${diagnostic.message}`;
+		node.style.opacity = "0.7";
+		node.style.fontSize = `${this.settings.inlineErrorFontSize || 12}px`;
+		node.style.fontFamily = this.settings.inlineErrorFont || DEFAULT_INLINE_FONT;
+		node.style.fontStyle = "italic";
+		node.style.paddingLeft = "0.75em";
+		node.style.whiteSpace = "nowrap";
+		node.style.pointerEvents = "none";
+		node.style.userSelect = "none";
+		node.style.color = isError ? "var(--text-error, #f48771)" : "var(--text-warning, #ffa500)";
+
+		return {
+			getId: () => widgetId,
+			getDomNode: () => node,
+			getPosition: () => ({
+				position: { lineNumber, column },
+				preference: [monaco.editor.ContentWidgetPositionPreference.EXACT],
+			}),
+		};
+	}
+}
+
+/**
+ * Runs the registered validators for a model, merges and de-duplicates their results
+ * into one set of markers, and renders the inline messages of each editor
+ */
+export class DiagnosticsService {
+	private static providers: DiagnosticsProvider[] = [];
+	private static renderers = new WeakMap<monaco.editor.IStandaloneCodeEditor, InlineDiagnosticsRenderer>();
+	// Latest run per model, so slower runs don't overwrite newer results
+	private static runs = new WeakMap<monaco.editor.ITextModel, number>();
+
+	/**
+	 * Add a validator; earlier registrations win when diagnostics overlap
+	 */
+	static registerProvider(provider: DiagnosticsProvider): monaco.IDisposable {
+		this.providers.push(provider);
+		return {
+			dispose: () => {
+				this.providers = this.providers.filter((candidate) => candidate !== provider);
+			},
+		};
+	}
+
+	/**
+	 * Validate the editor's model with every provider for the language and show the results
+	 */
+	static async validate(
+		editor: monaco.editor.IStandaloneCodeEditor,
+		language: string,
+		code: string,
+		settings: MonacoPrettierSettings
+	): Promise<void> {
+		const model = editor.getModel();
+		if (!model) return;
+		this.attach(editor, settings);
+
+		const run = (this.runs.get(model) ?? 0) + 1;
+		this.runs.set(model, run);
+
+		const path = uriToVaultPath(model.uri);
+		const results = await this.runProviders({ model, path, language, code, settings, headless: false });
+		if (model.isDisposed() || this.runs.get(model) !== run) return;
+
+		// Drop what Monaco's own validation already reports
+		const external = monaco.editor.getModelMarkers({ resource: model.uri })
+			.filter((marker) => marker.owner !== MARKER_OWNER)
+			.map(fromMarker);
+		const diagnostics = dedupe([...external, ...results]).filter((diagnostic) => diagnostic.priority >= 0);
+
+		console.log(`Diagnostics: ${diagnostics.length} for ${language}`);
+		monaco.editor.setModelMarkers(model, MARKER_OWNER, diagnostics.map((diagnostic) => toMarker(model, diagnostic)));
+	}
+
+	/**
+	 * Run the providers without an editor and return the de-duplicated results (no markers are set)
+	 * `model` may be a scratch model; `path` is the vault file it holds
+	 */
+	static async collect(
+		model: monaco.editor.ITextModel,
+		path: string,
+		language: string,
+		code: string,
+		settings: MonacoPrettierSettings
+	): Promise<CollectedDiagnostic[]> {
+		const results = await this.runProviders({ model, path, language, code, settings, headless: true });
+		return dedupe(results).map(({ priority, ...diagnostic }) => diagnostic);
+	}
+
+	/**
+	 * Remove the providers' markers and the editor's inline messages
+	 */
+	static clear(editor: monaco.editor.IStandaloneCodeEditor): void {
+		const model = editor.getModel();
+		if (model) {
+			this.runs.set(model, (this.runs.get(model) ?? 0) + 1);
+			monaco.editor.setModelMarkers(model, MARKER_OWNER, []);
+		}
+		this.renderers.get(editor)?.clear();
+	}
+
+	private static async runProviders(context: DiagnosticsContext): Promise<Diagnostic[]> {
+		const providers = this.providers.filter((provider) => provider.appliesTo(context.language, context.settings));
+		const results = await Promise.all(providers.map(async (provider, priority) => {
+			try {
+				const errors = await provider.provideDiagnostics(context);
+				return errors.map((error): Diagnostic => ({ ...error, source: provider.source, priority }));
+			} catch (error) {
+				console.warn(`Diagnostics: ${provider.id} failed for ${context.language}:`, error);
+				return [];
+			}
+		}));
+		return results.flat();
+	}
+
+	/**
+	 * Start rendering inline messages for an editor (once per editor)
+	 */
+	private static attach(editor: monaco.editor.IStandaloneCodeEditor, settings: MonacoPrettierSettings): void {
+		const existing = this.renderers.get(editor);
+		if (existing) {
+			existing.settings = settings;
+			return;
+		}
+
+		const renderer = new InlineDiagnosticsRenderer(editor, settings);
+		this.renderers.set(editor, renderer);
+		editor.onDidDispose(() => {
+			renderer.dispose();
+			this.renderers.delete(editor);
+		});
+		renderer.render();
+	}
+}
+
+/**
+ * Sort by position and severity and drop diagnostics that repeat one already kept:
+ * the same message on an overlapping range, or an overlapping one from another source
+ * (different validators reporting the same problem). Overlapping diagnostics of one
+ * source are kept, since a validator knows its own are distinct.
+ */
+function dedupe(diagnostics: Diagnostic[]): Diagnostic[] {
+	const sorted = [...diagnostics].sort((a, b) =>
+		severityRank(a) - severityRank(b) || a.priority - b.priority || a.line - b.line || a.column - b.column
+	);
+
+	const kept: Diagnostic[] = [];
+	for (const diagnostic of sorted) {
+		const duplicate = kept.some((other) =>
+			overlaps(other, diagnostic)
+			&& (other.source !== diagnostic.source || normalize(other.message) === normalize(diagnostic.message))
+		);
+		if (!duplicate) kept.push(diagnostic);
+	}
+
+	return kept.sort((a, b) => a.line - b.line || a.column - b.column || severityRank(a) - severityRank(b));
+}
+
+function overlaps(a: Diagnostic, b: Diagnostic): boolean {
+	const aEnd = [a.endLine ?? a.line, a.endColumn ?? Number.MAX_SAFE_INTEGER];
+	const bEnd = [b.endLine ?? b.line, b.endColumn ?? Number.MAX_SAFE_INTEGER];
+	const before = (line: number, column: number, endLine: number, endColumn: number) =>
+		line < endLine || (line === endLine && column < endColumn);
+	// Empty ranges still overlap the position they sit on
+	return (before(a.line, a.column, bEnd[0], bEnd[1]) || (a.line === b.line && a.column === b.column))
+		&& (before(b.line, b.column, aEnd[0], aEnd[1]) || (a.line === b.line && a.column === b.column));
+}
+
+function severityRank(diagnostic: Diagnostic): number {
+	return diagnostic.severity === "error" ? 0 : 1;
+}
+
+function normalize(message: string): string {
+	return message.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * Markers of other owners take part in de-duplication with a priority below every provider
+ */
+function fromMarker(marker: monaco.editor.IMarker): Diagnostic {
+	return {
+		line: marker.startLineNumber,
+		column: marker.startColumn,
+		endLine: marker.endLineNumber,
+		endColumn: marker.endColumn,
+		message: marker.message,
+		severity: marker.severity === monaco.MarkerSeverity.Error ? "error" : "warning",
+		code: typeof marker.code === "string" ? marker.code : marker.code?.value,
+		source: marker.source ?? marker.owner,
+		priority: marker.owner === MARKER_OWNER ? 0 : -1,
+	};
+}
+
+function toMarker(model: monaco.editor.ITextModel, diagnostic: Diagnostic): monaco.editor.IMarkerData {
+	const line = Math.min(Math.max(diagnostic.line, 1), model.getLineCount());
+	// Without an end, underline the rest of the line or at least 5 characters
+	const endColumn = diagnostic.endColumn ?? Math.max(diagnostic.column + 5, model.getLineLength(line) + 1);
+	return {
+		severity: diagnostic.severity === "error" ? monaco.MarkerSeverity.Error : monaco.MarkerSeverity.Warning,
+		startLineNumber: line,
+		startColumn: diagnostic.column,
+		endLineNumber: diagnostic.endLine ?? line,
+		endColumn,
+		message: diagnostic.message,
+		code: diagnostic.code,
+		source: diagnostic.source,
+	};
+}
@@ -0,0 +1,103 @@
+import * as monaco from "monaco-editor";
+
+/**
+ * Helpers for working with Monaco diff editor line changes ("hunks")
+ *
+ * Monaco reports an empty side of a change with an end line number of 0,
+ * in which case the start line number is the line *after which* the lines
+ * would be inserted (0 meaning before the first line).
+ */
+
+export type DiffSide = "original" | "modified";
+
+/**
+ * Find the line change that covers a line on one side of the diff
+ */
+export function findLineChange(
+	changes: monaco.editor.ILineChange[],
+	lineNumber: number,
+	side: DiffSide
+): monaco.editor.ILineChange | null {
+	for (const change of changes) {
+		const start = side === "original" ? change.originalStartLineNumber : change.modifiedStartLineNumber;
+		const end = side === "original" ? change.originalEndLineNumber : change.modifiedEndLineNumber;
+
+		// Empty side: the change sits between `start` and `start + 1`
+		if (end === 0) {
+			if (lineNumber === start || lineNumber === start + 1) return change;
+			continue;
+		}
+
+		if (lineNumber >= start && lineNumber <= end) return change;
+	}
+	return null;
+}
+
+/**
+ * Build the edit that makes `target` take the lines of `change` from `source`
+ * @param from The side of the change the lines are copied from
+ */
+export function createHunkEdit(
+	change: monaco.editor.ILineChange,
+	source: monaco.editor.ITextModel,
+	target: monaco.editor.ITextModel,
+	from: DiffSide
+): monaco.editor.IIdentifiedSingleEditOperation {
+	const sourceStart = from === "original" ? change.originalStartLineNumber : change.modifiedStartLineNumber;
+	const sourceEnd = from === "original" ? change.originalEndLineNumber : change.modifiedEndLineNumber;
+	const targetStart = from === "original" ? change.modifiedStartLineNumber : change.originalStartLineNumber;
+	const targetEnd = from === "original" ? change.modifiedEndLineNumber : change.originalEndLineNumber;
+
+	const eol = target.getEOL();
+	const sourceLines: string[] = [];
+	if (sourceEnd !== 0) {
+		for (let line = sourceStart; line <= sourceEnd; line++) {
+			sourceLines.push(source.getLineContent(line));
+		}
+	}
+	const sourceText = sourceLines.join(eol);
+	const lineCount = target.getLineCount();
+
+	// Pure insertion into target after `targetStart`
+	if (targetEnd === 0) {
+		if (targetStart < lineCount) {
+			return {
+				range: new monaco.Range(targetStart + 1, 1, targetStart + 1, 1),
+				text: sourceText + eol,
+			};
+		}
+		const lastColumn = target.getLineMaxColumn(lineCount);
+		return {
+			range: new monaco.Range(lineCount, lastColumn, lineCount, lastColumn),
+			text: eol + sourceText,
+		};
+	}
+
+	// Pure deletion of target lines
+	if (sourceEnd === 0) {
+		if (targetEnd < lineCount) {
+			return {
+				range: new monaco.Range(targetStart, 1, targetEnd + 1, 1),
+				text: "",
+			};
+		}
+		if (targetStart > 1) {
+			return {
+				range: new monaco.Range(
+					targetStart - 1,
+					target.getLineMaxColumn(targetStart - 1),
+					targetEnd,
+					target.getLineMaxColumn(targetEnd)
+				),
+				text: "",
+			};
+		}
+		return { range: target.getFullModelRange(), text: "" };
+	}
+
+	// Replacement of target lines
+	return {
+		range: new monaco.Range(targetStart, 1, targetEnd, target.getLineMaxColumn(targetEnd)),
+		text: sourceText,
+	};
+}
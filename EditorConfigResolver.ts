@@ -0,0 +1,175 @@
+import { App } from "obsidian";
+import { matchesGlob } from "./GlobMatcher";
+import { dirname, joinPath, VaultFileReader } from "./VaultFileReader";
+
+/**
+ * EditorConfig properties supported by the editor
+ */
+export interface EditorConfigProperties {
+	indent_style?: "tab" | "space";
+	indent_size?: number | "tab";
+	tab_width?: number;
+	end_of_line?: "lf" | "crlf" | "cr";
+	insert_final_newline?: boolean;
+	trim_trailing_whitespace?: boolean;
+	charset?: string;
+}
+
+/**
+ * EditorConfig resolved for a single vault file
+ */
+export interface EditorConfigResult {
+	properties: EditorConfigProperties;
+	// .editorconfig files that contributed, nearest last
+	sources: string[];
+}
+
+interface EditorConfigSection {
+	glob: string;
+	properties: Record<string, string>;
+}
+
+interface EditorConfigFile {
+	root: boolean;
+	sections: EditorConfigSection[];
+}
+
+/**
+ * Resolves .editorconfig files up the folder hierarchy from a vault file
+ * following the EditorConfig spec (nearest file wins, `root = true` stops the search)
+ */
+export class EditorConfigResolver {
+	private reader: VaultFileReader;
+
+	constructor(app: App) {
+		this.reader = new VaultFileReader(app, "EditorConfig");
+	}
+
+	async resolve(filePath: string): Promise<EditorConfigResult> {
+		// Collect config files from the file's folder upwards
+		const files: { path: string; config: EditorConfigFile }[] = [];
+		let dir = dirname(filePath);
+
+		while (true) {
+			const path = joinPath(dir, ".editorconfig");
+			const content = await this.reader.read(path);
+			if (content !== null) {
+				const config = this.parse(content);
+				files.unshift({ path, config });
+				if (config.root) break;
+			}
+
+			if (dir === "") break;
+			dir = dirname(dir);
+		}
+
+		// Apply outermost first so nearer files and later sections override
+		const raw: Record<string, string> = {};
+		const sources: string[] = [];
+		for (const { path, config } of files) {
+			const configDir = dirname(path);
+			const relativePath = configDir ? filePath.substring(configDir.length + 1) : filePath;
+			let matched = false;
+
+			for (const section of config.sections) {
+				if (this.sectionMatches(section.glob, relativePath)) {
+					Object.assign(raw, section.properties);
+					matched = true;
+				}
+			}
+
+			if (matched) sources.push(path);
+		}
+
+		return { properties: this.toProperties(raw), sources };
+	}
+
+	/**
+	 * Parse an .editorconfig (INI) file; keys and values are case-insensitive
+	 */
+	private parse(content: string): EditorConfigFile {
+		const config: EditorConfigFile = { root: false, sections: [] };
+		let current: EditorConfigSection | null = null;
+
+		for (const rawLine of content.split(/\r?\n/)) {
+			const line = rawLine.trim();
+			if (!line || line.startsWith("#") || line.startsWith(";")) continue;
+
+			const sectionMatch = line.match(/^\[(.*)\]$/);
+			if (sectionMatch) {
+				current = { glob: sectionMatch[1], properties: {} };
+				config.sections.push(current);
+				continue;
+			}
+
+			const separator = line.indexOf("=");
+			if (separator === -1) continue;
+
+			const key = line.substring(0, separator).trim().toLowerCase();
+			const value = line.substring(separator + 1).trim().toLowerCase();
+
+			if (current) {
+				current.properties[key] = value;
+			} else if (key === "root") {
+				config.root = value === "true";
+			}
+		}
+
+		return config;
+	}
+
+	/**
+	 * Section globs without a slash match the file name at any depth,
+	 * globs with a slash are relative to the .editorconfig folder
+	 */
+	private sectionMatches(glob: string, relativePath: string): boolean {
+		if (glob.includes("/")) {
+			return matchesGlob(relativePath, glob.replace(/^\//, ""));
+		}
+		return matchesGlob(relativePath, glob);
+	}
+
+	private toProperties(raw: Record<string, string>): EditorConfigProperties {
+		const properties: EditorConfigProperties = {};
+
+		if (raw.indent_style === "tab" || raw.indent_style === "space") {
+			properties.indent_style = raw.indent_style;
+		}
+
+		if (raw.indent_size === "tab") {
+			properties.indent_size = "tab";
+		} else if (/^\d+$/.test(raw.indent_size ?? "")) {
+			properties.indent_size = parseInt(raw.indent_size);
+		}
+
+		if (/^\d+$/.test(raw.tab_width ?? "")) {
+			properties.tab_width = parseInt(raw.tab_width);
+		}
+
+		if (raw.end_of_line === "lf" || raw.end_of_line === "crlf" || raw.end_of_line === "cr") {
+			properties.end_of_line = raw.end_of_line;
+		}
+
+		if (raw.insert_final_newline === "true" || raw.insert_final_newline === "false") {
+			properties.insert_final_newline = raw.insert_final_newline === "true";
+		}
+
+		if (raw.trim_trailing_whitespace === "true" || raw.trim_trailing_whitespace === "false") {
+			properties.trim_trailing_whitespace = raw.trim_trailing_whitespace === "true";
+		}
+
+		if (raw.charset && raw.charset !== "unset") {
+			properties.charset = raw.charset;
+		}
+
+		return properties;
+	}
+
+	/**
+	 * Effective indentation width: indent_size, falling back to tab_width (and vice versa)
+	 */
+	static getIndentWidth(properties: EditorConfigProperties): number | undefined {
+		if (typeof properties.indent_size === "number") return properties.indent_size;
+		return properties.tab_width;
+	}
+}
@@ -0,0 +1,58 @@
+import * as monaco from "monaco-editor";
+import MonacoPrettierPlugin from "./main";
+
+/**
+ * Shared Monaco editor options derived from plugin settings
+ * Used by every editor surface so theme, font and tab settings stay consistent
+ */
+
+/**
+ * Apply the selected theme and return the theme id editors should use
+ * (the transparent variant when transparent background is enabled)
+ */
+export function resolveEditorTheme(plugin: MonacoPrettierPlugin): string {
+	const settings = plugin.settings;
+
+	// Determine theme to use
+	let theme = settings.selectedTheme;
+	if (settings.transparentBackground) {
+		theme = plugin.themeManager.createTransparentTheme(theme);
+	}
+
+	// Apply selected theme
+	plugin.themeManager.applyTheme(settings.selectedTheme);
+
+	return theme;
+}
+
+/**
+ * Font and display options read from settings
+ */
+export function getSharedEditorOptions(plugin: MonacoPrettierPlugin): monaco.editor.IEditorOptions {
+	const settings = plugin.settings;
+
+	return {
+		automaticLayout: true,
+		fontSize: settings.fontSize,
+		fontFamily: settings.fontFamily,
+		fontLigatures: settings.fontLigatures,
+		lineNumbers: settings.lineNumbers ? "on" : "off",
+		minimap: { enabled: settings.minimap },
+		wordWrap: settings.wordWrap ? "on" : "off",
+		folding: settings.folding,
+		scrollBeyondLastLine: false,
+		// Renames the matching XML/HTML tag while editing a tag name; the provider
+		// checks the setting on each request, so toggling it applies to open editors
+		linkedEditing: true,
+	};
+}
+
+/**
+ * Indentation options read from settings (applied per model)
+ */
+export function getIndentationOptions(plugin: MonacoPrettierPlugin): monaco.editor.ITextModelUpdateOptions {
+	return {
+		tabSize: plugin.settings.tabWidth,
+		insertSpaces: !plugin.settings.useTabs,
+	};
+}
@@ -0,0 +1,105 @@
+import { App, FileSystemAdapter, Platform } from "obsidian";
+import type { ChildProcess } from "child_process";
+
+/**
+ * Runs a user-configured command line as a formatter (desktop only)
+ * The buffer is written to stdin and the formatted code is read from stdout
+ */
+export class ExternalFormatter {
+	constructor(private app: App) {}
+
+	/**
+	 * External commands need Node's child_process and a vault on disk
+	 */
+	isAvailable(): boolean {
+		return Platform.isDesktopApp && this.app.vault.adapter instanceof FileSystemAdapter;
+	}
+
+	/**
+	 * Run `command` for a vault file
+	 * `{file}` in the command is replaced with the file's absolute path (quoted),
+	 * and the command runs from the file's folder so tools find their own config
+	 */
+	format(command: string, code: string, filePath: string, timeout: number): Promise<string> {
+		const adapter = this.app.vault.adapter;
+		if (!this.isAvailable() || !(adapter instanceof FileSystemAdapter)) {
+			return Promise.reject(new Error("External formatters are only available on desktop"));
+		}
+
+		const absolutePath = adapter.getFullPath(filePath);
+		const cwd = absolutePath.substring(0, Math.max(absolutePath.lastIndexOf("/"), absolutePath.lastIndexOf("\\")));
+		const commandLine = command.replace(/\{file\}/g, JSON.stringify(absolutePath));
+
+		// Loaded lazily: child_process does not exist on mobile
+		const { spawn } = require("child_process") as typeof import("child_process");
+		const isWindows = process.platform === "win32";
+
+		return new Promise((resolve, reject) => {
+			let child: ChildProcess;
+			try {
+				// Its own process group on POSIX, so a timeout can stop the command and not just the shell
+				child = spawn(commandLine, { cwd, shell: true, windowsHide: true, detached: !isWindows });
+			} catch (error) {
+				reject(error);
+				return;
+			}
+
+			let stdout = "";
+			let stderr = "";
+			let settled = false;
+
+			const finish = (error: Error | null, result?: string) => {
+				if (settled) return;
+				settled = true;
+				clearTimeout(timer);
+				if (error) reject(error);
+				else resolve(result!);
+			};
+
+			const timer = setTimeout(() => {
+				this.killTree(child, isWindows);
+				finish(new Error(`"${command}" timed out after ${timeout} ms`));
+			}, timeout);
+
+			child.stdout?.setEncoding("utf8");
+			child.stderr?.setEncoding("utf8");
+			child.stdout?.on("data", (chunk: string) => (stdout += chunk));
+			child.stderr?.on("data", (chunk: string) => (stderr += chunk));
+
+			child.on("error", (error) => finish(error));
+			child.on("close", (exitCode) => {
+				if (exitCode !== 0) {
+					finish(new Error(stderr.trim() || `"${command}" exited with code ${exitCode}`));
+				} else if (!stdout && code.trim()) {
+					// Never replace a non-empty buffer with nothing
+					finish(new Error(`"${command}" produced no output`));
+				} else {
+					finish(null, stdout);
+				}
+			});
+
+			// The process may exit before reading stdin (e.g. command not found)
+			child.stdin?.on("error", (error) => console.warn("External formatter stdin error:", error));
+			child.stdin?.end(code, "utf8");
+		});
+	}
+
+	/**
+	 * Stop the shell and every process it started
+	 */
+	private killTree(child: ChildProcess, isWindows: boolean): void {
+		if (child.pid === undefined) return;
+		try {
+			if (isWindows) {
+				const { spawn } = require("child_process") as typeof import("child_process");
+				spawn("taskkill", ["/pid", String(child.pid), "/T", "/F"], { windowsHide: true });
+			} else {
+				process.kill(-child.pid, "SIGKILL");
+			}
+		} catch (error) {
+			// Fall back to stopping the shell alone
+			console.warn("External formatter: could not stop the process tree:", error);
+			child.kill();
+		}
+	}
+}
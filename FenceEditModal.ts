@@ -3,6 +3,11 @@ import * as monaco from "monaco-editor";
 import MonacoPrettierPlugin from "./main";
 import { FenceEditContext } from "./FenceEditContext";
 import { ValidationManager } from "./ValidationManager";
+import { ProblemsView } from "./ProblemsView";
+import { FormatterRegistry } from "./FormatterRegistry";
+import { applyFormattedText } from "./TextEdits";
+import { configureLanguageDefaults } from "./LanguageDefaults";
+import { XmlLanguage } from "./XmlLanguage";
 
 /**
  * Modal that opens a Monaco editor instance to edit a code block
@@ -10,6 +15,7 @@ import { ValidationManager } from "./ValidationManager";
 export class FenceEditModal extends Modal {
 	private monacoEditor: monaco.editor.IStandaloneCodeEditor | null = null;
 	private editorContainer: HTMLElement;
+	private problemsTracking: monaco.IDisposable | null = null;
 
 	private constructor(
 		private plugin: MonacoPrettierPlugin,
@@ -51,8 +57,8 @@ export class FenceEditModal extends Modal {
 	private initializeMonaco() {
 		const settings = this.plugin.settings;
 
-		// Configure language validation
-		this.configureLanguageDefaults();
+		// Configure language validation (compiler options stay those of the active project)
+		configureLanguageDefaults(settings);
 
 		// Apply selected theme
 		this.plugin.themeManager.applyTheme(settings.selectedTheme);
@@ -77,12 +83,32 @@ export class FenceEditModal extends Modal {
 			wordWrap: settings.wordWrap ? "on" : "off",
 			folding: settings.folding,
 			scrollBeyondLastLine: false,
+			// Gated by the XML tag editing setting in the provider
+			linkedEditing: true,
 			tabSize: settings.tabWidth,
 			insertSpaces: !settings.useTabs,
 			cursorBlinking: "smooth",
 			smoothScrolling: true,
 		});
 
+		XmlLanguage.attachTagAutoClose(this.monacoEditor, () => settings.xmlTagEditing);
+
+		const notePath = this.app.workspace.getActiveFile()?.path;
+		this.problemsTracking = ProblemsView.trackEditor({
+			editor: this.monacoEditor,
+			getTitle: () => `${this.language} code block${notePath ? ` in ${notePath}` : ""}`,
+		});
+
+		// Format the code block (Shift+Alt+F, like VS Code's Format Document)
+		this.monacoEditor.addAction({
+			id: "monaco-prettier.formatCodeBlock",
+			label: "Format Code Block",
+			keybindings: [monaco.KeyMod.Shift | monaco.KeyMod.Alt | monaco.KeyCode.KeyF],
+			contextMenuGroupId: "1_modification",
+			contextMenuOrder: 1.5,
+			run: () => this.formatCode(),
+		});
+
 		// Listen to content changes for validation
 		if (settings.lightweightValidation) {
 			this.monacoEditor.onDidChangeModelContent(async () => {
@@ -111,45 +137,48 @@ export class FenceEditModal extends Modal {
 		}
 	}
 
-	private configureLanguageDefaults(): void {
-		const settings = this.plugin.settings;
+	/**
+	 * Format the code block with the formatter for its language, as minimal edits
+	 */
+	private async formatCode(): Promise<void> {
+		const editor = this.monacoEditor;
+		const model = editor?.getModel();
+		if (!editor || !model) return;
+
+		const code = model.getValue();
+		const versionId = model.getVersionId();
+
+		let formatted: string | null;
+		try {
+			formatted = await FormatterRegistry.formatForLanguage(code, this.language, this.plugin.settings);
+		} catch (error) {
+			console.error("Code block formatting error:", error);
+			new Notice(`Formatting failed: ${(error as Error).message}`);
+			return;
+		}
 
-		monaco.languages.typescript.javascriptDefaults.setDiagnosticsOptions({
-			noSemanticValidation: !settings.semanticValidation,
-			noSyntaxValidation: !settings.syntaxValidation,
-		});
+		if (formatted === null) {
+			new Notice(`No formatter available for ${this.language} code blocks`);
+			return;
+		}
 
-		monaco.languages.typescript.typescriptDefaults.setDiagnosticsOptions({
-			noSemanticValidation: !settings.semanticValidation,
-			noSyntaxValidation: !settings.syntaxValidation,
-		});
+		// Don't overwrite edits made while the formatter was running
+		if (model.isDisposed() || model.getVersionId() !== versionId) return;
 
-		monaco.languages.typescript.javascriptDefaults.setCompilerOptions({
-			target: monaco.languages.typescript.ScriptTarget.ES2020,
-			allowNonTsExtensions: true,
-			moduleResolution: monaco.languages.typescript.ModuleResolutionKind.NodeJs,
-			module: monaco.languages.typescript.ModuleKind.CommonJS,
-			noEmit: true,
-			esModuleInterop: true,
-			allowJs: true,
-			checkJs: false,
-		});
+		// Formatters end files with a newline, code blocks usually don't
+		if (!code.endsWith("\n")) {
+			formatted = formatted.replace(/\r?\n$/, "");
+		}
 
-		monaco.languages.typescript.typescriptDefaults.setCompilerOptions({
-			target: monaco.languages.typescript.ScriptTarget.ES2020,
-			allowNonTsExtensions: true,
-			moduleResolution: monaco.languages.typescript.ModuleResolutionKind.NodeJs,
-			module: monaco.languages.typescript.ModuleKind.CommonJS,
-			noEmit: true,
-			esModuleInterop: true,
-			jsx: monaco.languages.typescript.JsxEmit.React,
-			allowJs: true,
-		});
+		applyFormattedText(editor, formatted);
 	}
 
 	onClose() {
 		super.onClose();
 
+		this.problemsTracking?.dispose();
+		this.problemsTracking = null;
+
 		// Save the edited code
 		if (this.monacoEditor) {
 			this.onSave(this.monacoEditor.getValue());
@@ -0,0 +1,189 @@
+import { ButtonComponent, Modal, Notice } from "obsidian";
+import * as monaco from "monaco-editor";
+import MonacoPrettierPlugin from "./main";
+import { createHunkEdit } from "./DiffHunks";
+import { getSharedEditorOptions, resolveEditorTheme } from "./EditorOptions";
+
+/**
+ * Modal that previews a formatting result as a diff against the current buffer
+ * Accepted hunks are applied to the editor as a single undoable edit
+ */
+export class FormatPreviewModal extends Modal {
+	private diffEditor: monaco.editor.IStandaloneDiffEditor | null = null;
+	private originalModel: monaco.editor.ITextModel | null = null;
+	private formattedModel: monaco.editor.ITextModel | null = null;
+	private changes: monaco.editor.ILineChange[] = [];
+	private accepted = new Set<number>();
+	private hunkListEl: HTMLElement;
+	private applyButton: ButtonComponent;
+
+	constructor(
+		private plugin: MonacoPrettierPlugin,
+		private editor: monaco.editor.IStandaloneCodeEditor,
+		private formatted: string
+	) {
+		super(plugin.app);
+	}
+
+	onOpen() {
+		super.onOpen();
+
+		this.titleEl.setText("Format with preview");
+
+		// Set modal size
+		this.modalEl.setCssProps({
+			"--dialog-width": "90vw",
+			"--dialog-height": "90vh",
+		});
+		this.modalEl.style.height = "var(--dialog-height)";
+
+		const { contentEl } = this;
+		contentEl.style.display = "flex";
+		contentEl.style.flexDirection = "column";
+		contentEl.style.gap = "8px";
+		contentEl.style.height = "calc(90vh - 80px)";
+
+		// Diff editor container
+		const diffContainer = contentEl.createDiv();
+		diffContainer.style.flex = "1";
+		diffContainer.style.minHeight = "0";
+
+		// Hunk list
+		this.hunkListEl = contentEl.createDiv();
+		this.hunkListEl.style.maxHeight = "25%";
+		this.hunkListEl.style.overflowY = "auto";
+		this.hunkListEl.setText("Computing changes...");
+
+		// Button row
+		const buttonRow = contentEl.createDiv();
+		buttonRow.style.display = "flex";
+		buttonRow.style.justifyContent = "flex-end";
+		buttonRow.style.gap = "8px";
+
+		new ButtonComponent(buttonRow).setButtonText("Cancel").onClick(() => this.close());
+
+		this.applyButton = new ButtonComponent(buttonRow)
+			.setButtonText("Apply selected")
+			.onClick(() => this.apply(this.accepted));
+
+		new ButtonComponent(buttonRow)
+			.setCta()
+			.setButtonText("Accept all")
+			.onClick(() => this.apply(new Set(this.changes.map((_, index) => index))));
+
+		this.initializeDiff(diffContainer);
+	}
+
+	private initializeDiff(container: HTMLElement) {
+		const source = this.editor.getModel();
+		if (!source) return;
+
+		this.originalModel = monaco.editor.createModel(source.getValue(), source.getLanguageId());
+		this.formattedModel = monaco.editor.createModel(this.formatted, source.getLanguageId());
+
+		this.diffEditor = monaco.editor.createDiffEditor(container, {
+			...getSharedEditorOptions(this.plugin),
+			theme: resolveEditorTheme(this.plugin),
+			readOnly: true,
+			originalEditable: false,
+			renderSideBySide: true,
+			useInlineViewWhenSpaceIsLimited: true,
+		});
+		this.diffEditor.setModel({ original: this.originalModel, modified: this.formattedModel });
+
+		// Diff computation is asynchronous; build the hunk list once it is ready
+		const disposable = this.diffEditor.onDidUpdateDiff(() => {
+			disposable.dispose();
+			this.changes = this.diffEditor?.getLineChanges() ?? [];
+			this.changes.forEach((_, index) => this.accepted.add(index));
+			this.renderHunkList();
+		});
+	}
+
+	private renderHunkList() {
+		this.hunkListEl.empty();
+
+		if (this.changes.length === 0) {
+			this.hunkListEl.setText("No differences");
+			return;
+		}
+
+		this.changes.forEach((change, index) => {
+			const row = this.hunkListEl.createDiv();
+			row.style.display = "flex";
+			row.style.alignItems = "center";
+			row.style.gap = "8px";
+			row.style.padding = "2px 0";
+
+			const checkbox = row.createEl("input", { type: "checkbox" });
+			checkbox.checked = this.accepted.has(index);
+			checkbox.addEventListener("change", () => {
+				if (checkbox.checked) {
+					this.accepted.add(index);
+				} else {
+					this.accepted.delete(index);
+				}
+				this.applyButton.setDisabled(this.accepted.size === 0);
+			});
+
+			const label = row.createEl("a", { text: this.describeChange(change) });
+			label.addEventListener("click", () => this.revealChange(change));
+		});
+	}
+
+	private describeChange(change: monaco.editor.ILineChange): string {
+		const removed = change.originalEndLineNumber === 0
+			? 0
+			: change.originalEndLineNumber - change.originalStartLineNumber + 1;
+		const added = change.modifiedEndLineNumber === 0
+			? 0
+			: change.modifiedEndLineNumber - change.modifiedStartLineNumber + 1;
+		const startLine = Math.max(change.originalStartLineNumber, 1);
+		return `Line ${startLine}: −${removed} +${added}`;
+	}
+
+	private revealChange(change: monaco.editor.ILineChange) {
+		const editor = this.diffEditor?.getModifiedEditor();
+		if (!editor) return;
+		const line = Math.max(change.modifiedStartLineNumber, 1);
+		editor.revealLineInCenter(line);
+		editor.setPosition({ lineNumber: line, column: 1 });
+	}
+
+	/**
+	 * Apply the given hunks to the source editor as one undo step
+	 */
+	private apply(indices: Set<number>) {
+		const target = this.editor.getModel();
+		if (!target || !this.formattedModel) return;
+
+		if (indices.size === 0) {
+			this.close();
+			return;
+		}
+
+		// The buffer cannot change while the modal is open, so hunk ranges still match
+		const edits = this.changes
+			.filter((_, index) => indices.has(index))
+			.map((change) => createHunkEdit(change, this.formattedModel!, target, "modified"));
+
+		this.editor.pushUndoStop();
+		this.editor.executeEdits("prettier-preview", edits);
+		this.editor.pushUndoStop();
+
+		new Notice(`Applied ${edits.length} of ${this.changes.length} formatting change(s)`);
+		this.close();
+	}
+
+	onClose() {
+		super.onClose();
+
+		this.diffEditor?.dispose();
+		this.diffEditor = null;
+		this.originalModel?.dispose();
+		this.formattedModel?.dispose();
+		this.originalModel = null;
+		this.formattedModel = null;
+		this.contentEl.empty();
+	}
+}
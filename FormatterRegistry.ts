@@ -0,0 +1,176 @@
+import type { FormatterBinding, MonacoPrettierSettings } from "./settings";
+import { PrettierFormatter } from "./PrettierFormatter";
+import { BUILT_IN_FORMATTERS, BuiltInFormatOptions, BuiltInFormatter } from "./BuiltInFormatters";
+import { EditorConfigResolver } from "./EditorConfigResolver";
+import { ExternalFormatter } from "./ExternalFormatter";
+
+/**
+ * Formatter that will handle a file with the current settings
+ */
+export interface ResolvedFormatter {
+	kind: "prettier" | "builtin" | "command";
+	name: string;
+}
+
+/**
+ * Chooses and runs the formatter bound to each file extension
+ */
+export class FormatterRegistry {
+	private static builtIns: BuiltInFormatter[] = [...BUILT_IN_FORMATTERS];
+	private static externalFormatter: ExternalFormatter | null = null;
+	private static editorConfigResolver: EditorConfigResolver | null = null;
+
+	/**
+	 * Set the runner used for user-configured command line formatters
+	 */
+	static setExternalFormatter(formatter: ExternalFormatter | null): void {
+		this.externalFormatter = formatter;
+	}
+
+	/**
+	 * Set the resolver used to pass .editorconfig indentation to built-in formatters
+	 */
+	static setEditorConfigResolver(resolver: EditorConfigResolver | null): void {
+		this.editorConfigResolver = resolver;
+	}
+
+	/**
+	 * Add a built-in formatter (later registrations win for the same extension)
+	 */
+	static registerBuiltIn(formatter: BuiltInFormatter): void {
+		this.builtIns.unshift(formatter);
+	}
+
+	static getBuiltIn(ext: string): BuiltInFormatter | null {
+		return this.builtIns.find((formatter) => formatter.extensions.includes(ext)) || null;
+	}
+
+	static getBinding(ext: string, settings: MonacoPrettierSettings): FormatterBinding {
+		return settings.formatters[ext] ?? { formatter: "auto", command: "" };
+	}
+
+	/**
+	 * Resolve which formatter handles a file, or null if none is available
+	 */
+	static resolve(filePath: string, settings: MonacoPrettierSettings): ResolvedFormatter | null {
+		const ext = this.getExtension(filePath);
+		const binding = this.getBinding(ext, settings);
+
+		const prettier = (): ResolvedFormatter | null => {
+			const parser = PrettierFormatter.getParser(ext);
+			return parser && PrettierFormatter.isParserAvailable(parser, settings)
+				? { kind: "prettier", name: "Prettier" }
+				: null;
+		};
+		const builtIn = (): ResolvedFormatter | null => {
+			const formatter = this.getBuiltIn(ext);
+			return formatter ? { kind: "builtin", name: formatter.name } : null;
+		};
+		const command = (): ResolvedFormatter | null => {
+			const commandLine = binding.command.trim();
+			return commandLine && this.externalFormatter?.isAvailable()
+				? { kind: "command", name: commandLine.split(/\s+/)[0] }
+				: null;
+		};
+
+		switch (binding.formatter) {
+			case "prettier":
+				return prettier();
+			case "builtin":
+				return builtIn();
+			case "command":
+				return command();
+			case "none":
+				return null;
+			default:
+				return prettier() ?? builtIn() ?? command();
+		}
+	}
+
+	/**
+	 * Format code for a vault file with the formatter bound to its extension
+	 * Returns null when no formatter is available or Prettier ignores the file; throws on formatter errors
+	 */
+	static async format(code: string, filePath: string, settings: MonacoPrettierSettings): Promise<string | null> {
+		const resolved = this.resolve(filePath, settings);
+		if (!resolved) {
+			console.log("No formatter available for", filePath);
+			return null;
+		}
+
+		const ext = this.getExtension(filePath);
+		switch (resolved.kind) {
+			case "prettier":
+				return PrettierFormatter.format(code, filePath, settings);
+			case "builtin": {
+				const indentation = await this.resolveIndentation(filePath, settings);
+				return this.getBuiltIn(ext)!.format(code, indentation);
+			}
+			case "command":
+				return this.externalFormatter!.format(
+					this.getBinding(ext, settings).command.trim(),
+					code,
+					filePath,
+					settings.externalFormatterTimeout
+				);
+		}
+	}
+
+	/**
+	 * Format code without a vault file (e.g. a code block) by its Monaco language id
+	 * Uses Prettier when it supports the language, otherwise a built-in formatter
+	 */
+	static async formatForLanguage(code: string, languageId: string, settings: MonacoPrettierSettings): Promise<string | null> {
+		if (PrettierFormatter.getParserForLanguage(languageId)) {
+			return PrettierFormatter.formatForLanguage(code, languageId, settings);
+		}
+
+		const builtIn = this.builtIns.find((formatter) => formatter.languages.includes(languageId));
+		if (builtIn) {
+			return builtIn.format(code, { tabWidth: settings.tabWidth, useTabs: settings.useTabs });
+		}
+
+		return null;
+	}
+
+	/**
+	 * Explain why a file could not be formatted, for Notices
+	 */
+	static async describeUnavailable(filePath: string, settings: MonacoPrettierSettings): Promise<string> {
+		const resolved = this.resolve(filePath, settings);
+		if (resolved?.kind === "prettier") {
+			return PrettierFormatter.describeSkipped(filePath, settings);
+		}
+		if (resolved) {
+			return `${resolved.name} skipped ${filePath.substring(filePath.lastIndexOf("/") + 1)}`;
+		}
+
+		const ext = this.getExtension(filePath);
+		if (this.getBinding(ext, settings).formatter === "none") {
+			return `Formatting is disabled for .${ext} files`;
+		}
+		return `No formatter available for .${ext} files. Bind one in Settings → Formatting → Formatters`;
+	}
+
+	private static async resolveIndentation(
+		filePath: string,
+		settings: MonacoPrettierSettings
+	): Promise<BuiltInFormatOptions> {
+		const indentation: BuiltInFormatOptions = { tabWidth: settings.tabWidth, useTabs: settings.useTabs };
+
+		if (this.editorConfigResolver && settings.useEditorConfig) {
+			const { properties } = await this.editorConfigResolver.resolve(filePath);
+			const indentWidth = EditorConfigResolver.getIndentWidth(properties);
+			if (properties.indent_style) indentation.useTabs = properties.indent_style === "tab";
+			if (indentWidth !== undefined) indentation.tabWidth = indentWidth;
+		}
+
+		return indentation;
+	}
+
+	private static getExtension(filePath: string): string {
+		const name = filePath.substring(filePath.lastIndexOf("/") + 1);
+		const dot = name.lastIndexOf(".");
+		return dot === -1 ? "" : name.substring(dot + 1).toLowerCase();
+	}
+}
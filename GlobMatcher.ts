@@ -0,0 +1,137 @@
+/**
+ * Minimal glob matching for vault-relative paths
+ * Supports `*`, `**`, `?`, `{a,b}` alternatives and `[...]` character classes
+ */
+
+const regExpCache = new Map<string, RegExp>();
+
+/**
+ * Convert a glob pattern to an anchored regular expression
+ */
+export function globToRegExp(glob: string): RegExp {
+	const cached = regExpCache.get(glob);
+	if (cached) return cached;
+
+	let source = "";
+	let groupDepth = 0;
+
+	for (let i = 0; i < glob.length; i++) {
+		const char = glob[i];
+
+		switch (char) {
+			case "*":
+				if (glob[i + 1] === "*") {
+					// Collapse runs of `*`
+					while (glob[i + 1] === "*") i++;
+					if (glob[i + 1] === "/") {
+						// `**/` matches zero or more directories
+						source += "(?:.*/)?";
+						i++;
+					} else {
+						source += ".*";
+					}
+				} else {
+					source += "[^/]*";
+				}
+				break;
+			case "?":
+				source += "[^/]";
+				break;
+			case "{":
+				groupDepth++;
+				source += "(?:";
+				break;
+			case "}":
+				if (groupDepth > 0) {
+					groupDepth--;
+					source += ")";
+				} else {
+					source += "\\}";
+				}
+				break;
+			case ",":
+				source += groupDepth > 0 ? "|" : ",";
+				break;
+			case "[": {
+				const close = glob.indexOf("]", i + 1);
+				if (close === -1) {
+					source += "\\[";
+					break;
+				}
+				let cls = glob.substring(i + 1, close).replace(/\\/g, "\\\\");
+				if (cls.startsWith("!")) cls = "^" + cls.substring(1);
+				source += `[${cls}]`;
+				i = close;
+				break;
+			}
+			default:
+				source += char.replace(/[.+^$()|\\]/g, "\\$&");
+		}
+	}
+
+	const regExp = new RegExp(`^${source}$`);
+	regExpCache.set(glob, regExp);
+	return regExp;
+}
+
+/**
+ * Test a relative path against a glob
+ * Patterns without a slash match the file name in any directory
+ */
+export function matchesGlob(path: string, pattern: string): boolean {
+	const normalizedPattern = pattern.replace(/^\.?\//, "");
+	const normalizedPath = path.replace(/^\.?\//, "");
+
+	if (!normalizedPattern.includes("/")) {
+		const baseName = normalizedPath.substring(normalizedPath.lastIndexOf("/") + 1);
+		return globToRegExp(normalizedPattern).test(baseName);
+	}
+
+	return globToRegExp(normalizedPattern).test(normalizedPath);
+}
+
+/**
+ * Test a relative path against any of the given globs
+ */
+export function matchesAnyGlob(path: string, patterns: string[]): boolean {
+	return patterns.some((pattern) => matchesGlob(path, pattern));
+}
+
+/**
+ * Evaluate gitignore-style lines (as used by .prettierignore) against a relative path
+ * Later lines win, `!` negates, a trailing `/` only matches directories
+ */
+export function isIgnoredByPatterns(path: string, lines: string[]): boolean {
+	let ignored = false;
+
+	for (const rawLine of lines) {
+		let line = rawLine.trim();
+		if (!line || line.startsWith("#")) continue;
+
+		const negate = line.startsWith("!");
+		if (negate) line = line.substring(1);
+
+		const directoryOnly = line.endsWith("/");
+		if (directoryOnly) line = line.replace(/\/+$/, "");
+
+		// A slash anywhere but the end anchors the pattern to the ignore file's folder
+		const anchored = line.includes("/");
+		line = line.replace(/^\//, "");
+		const pattern = anchored ? line : `**/${line}`;
+
+		const regExp = globToRegExp(pattern);
+		const segments = path.split("/");
+
+		// Match the path itself or any of its parent directories
+		let matched = false;
+		for (let i = 1; i <= segments.length && !matched; i++) {
+			const isDirectory = i < segments.length;
+			if (directoryOnly && !isDirectory) continue;
+			matched = regExp.test(segments.slice(0, i).join("/"));
+		}
+
+		if (matched) ignored = !negate;
+	}
+
+	return ignored;
+}
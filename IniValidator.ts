@@ -0,0 +1,106 @@
+import type { ValidationError } from "./ValidationManager";
+
+// [section] with an optional trailing comment
+const SECTION = /^\[([^[\]]*)\]\s*(?:[;#].*)?$/;
+
+/**
+ * INI checks for `.ini`, `.conf` and `.cfg` files: malformed section headers, duplicate sections and keys
+ * `.conf` and `.cfg` files are often not INI, so lines without `=` or `:` are only reported
+ * once the file has a section header; indented lines after a key continue its value
+ */
+export class IniValidator {
+	static validate(code: string): ValidationError[] {
+		const errors: ValidationError[] = [];
+		const lines = code.split(/\r?\n/);
+		const hasSections = lines.some((line) => SECTION.test(line.trim()));
+
+		// Key → line of its first definition, per section ("" before the first header)
+		const sections = new Map<string, { line: number; keys: Map<string, number> }>();
+		sections.set("", { line: 0, keys: new Map() });
+		let section = "";
+		let afterKey = false;
+
+		lines.forEach((text, index) => {
+			const lineNumber = index + 1;
+			const trimmed = text.trim();
+			const indent = text.length - text.trimStart().length;
+
+			if (!trimmed || trimmed.startsWith(";") || trimmed.startsWith("#")) return;
+
+			if (trimmed.startsWith("[")) {
+				afterKey = false;
+				const match = trimmed.match(SECTION);
+				if (!match) {
+					const close = trimmed.indexOf("]");
+					if (close === -1) {
+						errors.push(lineError(lineNumber, indent + 1, text.length + 1, "Section header is missing ']'"));
+					} else if (trimmed.substring(1, close).includes("[")) {
+						errors.push(lineError(lineNumber, indent + 1, indent + close + 2, "Malformed section header"));
+					} else {
+						errors.push(lineError(lineNumber, indent + close + 2, text.trimEnd().length + 1, "Unexpected text after the section header"));
+					}
+					return;
+				}
+
+				const name = match[1].trim();
+				if (!name) {
+					errors.push(lineError(lineNumber, indent + 1, indent + trimmed.indexOf("]") + 2, "Section name is empty"));
+					return;
+				}
+
+				const existing = sections.get(name);
+				if (existing) {
+					errors.push(lineError(lineNumber, indent + 1, indent + trimmed.indexOf("]") + 2,
+						`Section [${name}] is already defined on line ${existing.line}`, "warning"));
+				} else {
+					sections.set(name, { line: lineNumber, keys: new Map() });
+				}
+				section = name;
+				return;
+			}
+
+			// Continuation of a multi-line value
+			if (indent > 0 && afterKey) return;
+
+			const separator = trimmed.search(/[=:]/);
+			if (separator === -1) {
+				afterKey = false;
+				if (hasSections) {
+					errors.push(lineError(lineNumber, indent + 1, text.trimEnd().length + 1, "Expected 'key = value'", "warning"));
+				}
+				return;
+			}
+
+			afterKey = true;
+			const key = trimmed.substring(0, separator).trim();
+			if (!key) {
+				errors.push(lineError(lineNumber, indent + 1, indent + 2, `Missing key before '${trimmed[separator]}'`));
+				return;
+			}
+			// `key[] = value` appends to an array (PHP-style)
+			if (key.endsWith("[]")) return;
+
+			const keys = sections.get(section)!.keys;
+			const firstLine = keys.get(key);
+			if (firstLine !== undefined) {
+				const where = section ? ` in section [${section}]` : "";
+				errors.push(lineError(lineNumber, indent + 1, indent + key.length + 1,
+					`Duplicate key '${key}'${where} (first defined on line ${firstLine})`, "warning"));
+			} else {
+				keys.set(key, lineNumber);
+			}
+		});
+
+		return errors;
+	}
+}
+
+function lineError(
+	line: number,
+	column: number,
+	endColumn: number,
+	message: string,
+	severity: ValidationError["severity"] = "error"
+): ValidationError {
+	return { line, column, endLine: line, endColumn: Math.max(endColumn, column + 1), message, severity };
+}
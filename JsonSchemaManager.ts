@@ -0,0 +1,231 @@
+import { App, EventRef, TAbstractFile } from "obsidian";
+import * as monaco from "monaco-editor";
+import type MonacoPrettierPlugin from "./main";
+import { BUNDLED_JSON_SCHEMAS } from "./BundledJsonSchemas";
+import { applyJsonSchemas, JsonSchemaSetting } from "./LanguageDefaults";
+import { resolveVaultPath, uriToVaultPath, vaultPathToUri } from "./VaultUri";
+import { matchesGlob } from "./GlobMatcher";
+
+// `$schema` values with a scheme (https:, file:, ...) are not vault paths
+const URL_PATTERN = /^[a-z][a-z0-9+.-]*:/i;
+const SCHEMA_REFERENCE = /"\$schema"\s*:\s*"([^"]+)"/;
+// YAML files name their schema in a comment, like the YAML language server
+const YAML_SCHEMA_MODELINE = /^#\s*yaml-language-server:\s*\$schema=(\S+)/m;
+
+/**
+ * Supplies JSON schemas to Monaco's JSON service without network access:
+ * bundled schemas for common config files, schema files mapped to globs in the settings,
+ * and vault schema files referenced by a document's `$schema`
+ * The same schemas are matched to YAML files for YamlLanguage
+ */
+export class JsonSchemaManager {
+	private app: App;
+	private plugin: MonacoPrettierPlugin;
+	private eventRefs: EventRef[] = [];
+	private disposables: monaco.IDisposable[] = [];
+	private modelListeners = new Map<monaco.editor.ITextModel, monaco.IDisposable>();
+	// Vault schema files referenced by `$schema` in open documents
+	private referencedSchemas = new Set<string>();
+	// Parsed schema files by vault path (null when missing or invalid)
+	private schemaCache = new Map<string, any>();
+	// Glob → schema, for documents the JSON service does not validate (YAML)
+	private associations: { pattern: string; schema: any }[] = [];
+	private running = false;
+
+	constructor(app: App, plugin: MonacoPrettierPlugin) {
+		this.app = app;
+		this.plugin = plugin;
+	}
+
+	/**
+	 * Register the schemas and follow `$schema` references and schema file changes
+	 */
+	start(): void {
+		if (this.running) return;
+		this.running = true;
+
+		const vault = this.app.vault;
+		this.eventRefs = [
+			vault.on("modify", (file) => this.onSchemaFileChange(file.path)),
+			vault.on("create", (file) => this.onSchemaFileChange(file.path)),
+			vault.on("delete", (file) => this.onSchemaFileChange(file.path)),
+			vault.on("rename", (file: TAbstractFile, oldPath: string) => {
+				this.onSchemaFileChange(oldPath);
+				this.onSchemaFileChange(file.path);
+			}),
+		];
+
+		this.disposables.push(monaco.editor.onDidCreateModel((model) => this.watchModel(model)));
+		monaco.editor.getModels().forEach((model) => this.watchModel(model));
+
+		this.refresh();
+	}
+
+	stop(): void {
+		if (!this.running) return;
+		this.running = false;
+
+		this.eventRefs.forEach((ref) => this.app.vault.offref(ref));
+		this.eventRefs = [];
+		this.disposables.forEach((disposable) => disposable.dispose());
+		this.disposables = [];
+		this.modelListeners.forEach((listener) => listener.dispose());
+		this.modelListeners.clear();
+		this.referencedSchemas.clear();
+		this.schemaCache.clear();
+		this.associations = [];
+
+		applyJsonSchemas([]);
+	}
+
+	/**
+	 * Rebuild the schema list from the settings and send it to the JSON service
+	 */
+	async refresh(): Promise<void> {
+		const settings = this.plugin.settings;
+		const schemas = new Map<string, JsonSchemaSetting & { fileMatch: string[] }>();
+		const associations: { pattern: string; schema: any }[] = [];
+		const bundledAssociations: { pattern: string; schema: any }[] = [];
+
+		if (settings.bundledJsonSchemas) {
+			for (const bundled of BUNDLED_JSON_SCHEMAS) {
+				schemas.set(bundled.uri, { uri: bundled.uri, fileMatch: [...bundled.fileMatch], schema: bundled.schema });
+				bundledAssociations.push(...bundled.fileMatch.map((pattern) => ({ pattern, schema: bundled.schema })));
+			}
+		}
+
+		const addVaultSchema = async (path: string, fileMatch: string[]) => {
+			const schema = await this.loadSchema(path);
+			if (!schema) return;
+
+			const uri = vaultPathToUri(path).toString();
+			const existing = schemas.get(uri);
+			if (existing) {
+				existing.fileMatch.push(...fileMatch);
+			} else {
+				schemas.set(uri, { uri, fileMatch, schema });
+			}
+		};
+
+		for (const mapping of settings.jsonSchemaMappings) {
+			const pattern = mapping.pattern.trim();
+			const schemaPath = resolveVaultPath("", mapping.schema.trim());
+			if (pattern && schemaPath) {
+				await addVaultSchema(schemaPath, [toFileMatch(pattern)]);
+				const schema = this.schemaCache.get(schemaPath);
+				if (schema) associations.push({ pattern, schema });
+			}
+		}
+
+		for (const path of this.referencedSchemas) {
+			await addVaultSchema(path, []);
+		}
+
+		if (!this.running) return;
+		// Settings mappings win over bundled schemas
+		this.associations = [...associations, ...bundledAssociations];
+		applyJsonSchemas([...schemas.values()]);
+		console.log(`JsonSchemaManager: ${schemas.size} schema(s) registered`);
+	}
+
+	/**
+	 * Schema for a document outside the JSON service (YAML): its modeline, else the first matching glob
+	 */
+	getSchemaFor(path: string, content: string): any | null {
+		const reference = content.match(YAML_SCHEMA_MODELINE)?.[1];
+		if (reference && !URL_PATTERN.test(reference)) {
+			return this.schemaCache.get(this.resolveReference(path, reference)) ?? null;
+		}
+
+		return this.associations.find((association) => matchesGlob(path, association.pattern))?.schema ?? null;
+	}
+
+	/**
+	 * Track `$schema` references in JSON and YAML models while they change
+	 */
+	private watchModel(model: monaco.editor.ITextModel): void {
+		const language = model.getLanguageId();
+		if ((language !== "json" && language !== "yaml") || this.modelListeners.has(model)) return;
+
+		let timer: number | null = null;
+		const contentListener = model.onDidChangeContent(() => {
+			if (timer !== null) window.clearTimeout(timer);
+			timer = window.setTimeout(() => this.scanSchemaReference(model), 500);
+		});
+		const disposeListener = model.onWillDispose(() => {
+			if (timer !== null) window.clearTimeout(timer);
+			this.modelListeners.get(model)?.dispose();
+			this.modelListeners.delete(model);
+		});
+		this.modelListeners.set(model, {
+			dispose: () => {
+				contentListener.dispose();
+				disposeListener.dispose();
+			},
+		});
+
+		this.scanSchemaReference(model);
+	}
+
+	/**
+	 * Register the vault schema a document points to with `$schema`
+	 * Relative paths resolve from the document's folder, "/" from the vault root,
+	 * the same way the JSON service resolves them against the model URI
+	 */
+	private scanSchemaReference(model: monaco.editor.ITextModel): void {
+		if (model.isDisposed()) return;
+
+		const documentPath = uriToVaultPath(model.uri);
+		const pattern = model.getLanguageId() === "yaml" ? YAML_SCHEMA_MODELINE : SCHEMA_REFERENCE;
+		const reference = model.getValue().match(pattern)?.[1];
+		if (documentPath === null || !reference || URL_PATTERN.test(reference)) return;
+
+		const schemaPath = this.resolveReference(documentPath, reference);
+		if (this.referencedSchemas.has(schemaPath)) return;
+
+		this.referencedSchemas.add(schemaPath);
+		this.refresh();
+	}
+
+	private resolveReference(documentPath: string, reference: string): string {
+		const documentDir = documentPath.substring(0, Math.max(documentPath.lastIndexOf("/"), 0));
+		return resolveVaultPath(documentDir, reference);
+	}
+
+	private onSchemaFileChange(path: string): void {
+		if (!this.schemaCache.has(path)) return;
+		this.schemaCache.delete(path);
+		this.refresh();
+	}
+
+	/**
+	 * Read and parse a vault schema file (cached until it changes)
+	 */
+	private async loadSchema(path: string): Promise<any> {
+		if (this.schemaCache.has(path)) return this.schemaCache.get(path);
+
+		let schema: any = null;
+		try {
+			if (await this.app.vault.adapter.exists(path)) {
+				schema = JSON.parse(await this.app.vault.adapter.read(path));
+			} else {
+				console.warn(`JsonSchemaManager: schema file ${path} not found`);
+			}
+		} catch (error) {
+			console.warn(`JsonSchemaManager: could not load schema ${path}:`, error);
+		}
+
+		this.schemaCache.set(path, schema);
+		return schema;
+	}
+}
+
+/**
+ * Convert a settings glob to a JSON service fileMatch pattern
+ * The service prefixes every pattern with `**` and matches it against the model URI,
+ * so patterns with a folder are anchored to the vault root through the file URI
+ */
+function toFileMatch(pattern: string): string {
+	if (!pattern.includes("/")) return pattern;
+	return `file:///${pattern.replace(/^\//, "")}`;
+}
@@ -0,0 +1,222 @@
+/**
+ * Minimal JSON Schema validator for documents that Monaco's JSON service does not handle (YAML)
+ * Supports type, enum, const, properties, required, additionalProperties, patternProperties,
+ * items, anyOf/oneOf/allOf, local $ref, pattern, minimum/maximum, minLength/maxLength and minItems/maxItems
+ */
+
+export type SchemaPath = (string | number)[];
+
+export interface SchemaError {
+	path: SchemaPath;
+	message: string;
+	// The error is about the property name at `path` rather than its value
+	onKey?: boolean;
+}
+
+/**
+ * Validate a plain value (as produced by a JSON or YAML parser) against a schema
+ */
+export function validateAgainstSchema(value: any, schema: any): SchemaError[] {
+	const errors: SchemaError[] = [];
+	validateValue(value, schema, schema, [], errors);
+	return errors;
+}
+
+/**
+ * Resolve a local `$ref` ("#/definitions/..." or "#/$defs/...") against the root schema
+ */
+export function resolveSchema(schema: any, root: any): any {
+	let resolved = schema;
+	// Guard against reference cycles
+	for (let depth = 0; resolved && typeof resolved.$ref === "string" && depth < 32; depth++) {
+		const ref: string = resolved.$ref;
+		if (!ref.startsWith("#")) return {};
+
+		let target = root;
+		for (const segment of ref.substring(1).split("/").filter(Boolean)) {
+			target = target?.[decodeURIComponent(segment).replace(/~1/g, "/").replace(/~0/g, "~")];
+		}
+		resolved = target ?? {};
+	}
+	return resolved ?? {};
+}
+
+/**
+ * Schema for the value at `path`, following properties, patternProperties, additionalProperties
+ * and items, and the first matching branch of anyOf/oneOf/allOf
+ */
+export function getSchemaAtPath(schema: any, path: SchemaPath): any | null {
+	let current: any = resolveSchema(schema, schema);
+
+	for (const segment of path) {
+		const candidates = collectAlternatives(current, schema);
+		let next: any = null;
+		for (const candidate of candidates) {
+			next = typeof segment === "number" ? getItemSchema(candidate, segment) : getPropertySchema(candidate, segment);
+			if (next) break;
+		}
+		if (!next) return null;
+		current = resolveSchema(next, schema);
+	}
+
+	return current;
+}
+
+/**
+ * A schema and the branches of its anyOf/oneOf/allOf (resolved), for completion and hovers
+ */
+export function collectAlternatives(schema: any, root: any): any[] {
+	const resolved = resolveSchema(schema, root);
+	const result = [resolved];
+	for (const keyword of ["allOf", "anyOf", "oneOf"]) {
+		if (Array.isArray(resolved[keyword])) {
+			for (const branch of resolved[keyword]) {
+				result.push(...collectAlternatives(branch, root));
+			}
+		}
+	}
+	return result;
+}
+
+function getPropertySchema(schema: any, name: string): any | null {
+	if (schema.properties?.[name]) return schema.properties[name];
+	for (const [pattern, propertySchema] of Object.entries(schema.patternProperties ?? {})) {
+		if (safeRegExp(pattern)?.test(name)) return propertySchema;
+	}
+	if (schema.additionalProperties && typeof schema.additionalProperties === "object") {
+		return schema.additionalProperties;
+	}
+	return null;
+}
+
+function getItemSchema(schema: any, index: number): any | null {
+	if (Array.isArray(schema.items)) return schema.items[index] ?? (typeof schema.additionalItems === "object" ? schema.additionalItems : null);
+	if (schema.items && typeof schema.items === "object") return schema.items;
+	return null;
+}
+
+function validateValue(value: any, schema: any, root: any, path: SchemaPath, errors: SchemaError[]): void {
+	if (schema === true || schema === undefined || schema === null) return;
+	if (schema === false) {
+		errors.push({ path, message: "Value is not allowed" });
+		return;
+	}
+	schema = resolveSchema(schema, root);
+
+	if (schema.type !== undefined) {
+		const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+		if (!types.some((type) => matchesType(value, type))) {
+			errors.push({ path, message: `Incorrect type. Expected "${types.join(" | ")}"` });
+			return;
+		}
+	}
+
+	if (Array.isArray(schema.enum) && !schema.enum.some((option: any) => deepEqual(option, value))) {
+		errors.push({ path, message: `Value is not accepted. Valid values: ${schema.enum.map((option: any) => JSON.stringify(option)).join(", ")}` });
+	}
+	if (schema.const !== undefined && !deepEqual(schema.const, value)) {
+		errors.push({ path, message: `Value must be ${JSON.stringify(schema.const)}` });
+	}
+
+	if (Array.isArray(schema.allOf)) {
+		for (const branch of schema.allOf) validateValue(value, branch, root, path, errors);
+	}
+	for (const keyword of ["anyOf", "oneOf"]) {
+		if (!Array.isArray(schema[keyword])) continue;
+		// Report the errors of the closest branch when none matches
+		let best: SchemaError[] | null = null;
+		for (const branch of schema[keyword]) {
+			const branchErrors: SchemaError[] = [];
+			validateValue(value, branch, root, path, branchErrors);
+			if (branchErrors.length === 0) {
+				best = null;
+				break;
+			}
+			if (!best || branchErrors.length < best.length) best = branchErrors;
+		}
+		if (best) errors.push(...best);
+	}
+
+	if (typeof value === "string") {
+		if (typeof schema.minLength === "number" && value.length < schema.minLength) {
+			errors.push({ path, message: `String is shorter than the minimum length of ${schema.minLength}` });
+		}
+		if (typeof schema.maxLength === "number" && value.length > schema.maxLength) {
+			errors.push({ path, message: `String is longer than the maximum length of ${schema.maxLength}` });
+		}
+		if (typeof schema.pattern === "string" && safeRegExp(schema.pattern)?.test(value) === false) {
+			errors.push({ path, message: `String does not match the pattern "${schema.pattern}"` });
+		}
+	}
+
+	if (typeof value === "number") {
+		if (typeof schema.minimum === "number" && value < schema.minimum) {
+			errors.push({ path, message: `Value is below the minimum of ${schema.minimum}` });
+		}
+		if (typeof schema.maximum === "number" && value > schema.maximum) {
+			errors.push({ path, message: `Value is above the maximum of ${schema.maximum}` });
+		}
+	}
+
+	if (Array.isArray(value)) {
+		if (typeof schema.minItems === "number" && value.length < schema.minItems) {
+			errors.push({ path, message: `Array has fewer than ${schema.minItems} items` });
+		}
+		if (typeof schema.maxItems === "number" && value.length > schema.maxItems) {
+			errors.push({ path, message: `Array has more than ${schema.maxItems} items` });
+		}
+		value.forEach((item, index) => {
+			const itemSchema = getItemSchema(schema, index);
+			if (itemSchema) validateValue(item, itemSchema, root, [...path, index], errors);
+		});
+	} else if (value !== null && typeof value === "object") {
+		for (const name of schema.required ?? []) {
+			if (!(name in value)) {
+				errors.push({ path, message: `Missing property "${name}"` });
+			}
+		}
+
+		for (const [name, propertyValue] of Object.entries(value)) {
+			const propertyPath = [...path, name];
+			const propertySchema = getPropertySchema(schema, name);
+			if (propertySchema) {
+				validateValue(propertyValue, propertySchema, root, propertyPath, errors);
+			} else if (schema.additionalProperties === false) {
+				errors.push({ path: propertyPath, message: `Property "${name}" is not allowed`, onKey: true });
+			}
+		}
+	}
+}
+
+function matchesType(value: any, type: string): boolean {
+	switch (type) {
+		case "string":
+			return typeof value === "string";
+		case "number":
+			return typeof value === "number";
+		case "integer":
+			return typeof value === "number" && Number.isInteger(value);
+		case "boolean":
+			return typeof value === "boolean";
+		case "null":
+			return value === null;
+		case "array":
+			return Array.isArray(value);
+		case "object":
+			return value !== null && typeof value === "object" && !Array.isArray(value);
+		default:
+			return true;
+	}
+}
+
+function deepEqual(a: any, b: any): boolean {
+	return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function safeRegExp(pattern: string): RegExp | null {
+	try {
+		return new RegExp(pattern);
+	} catch {
+		return null;
+	}
+}
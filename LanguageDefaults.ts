@@ -0,0 +1,194 @@
+import * as monaco from "monaco-editor";
+import type { MonacoPrettierSettings } from "./settings";
+import type { TsConfigResult } from "./TsConfigResolver";
+import { vaultPathToUri } from "./VaultUri";
+
+/**
+ * Language service configuration shared by every editor surface
+ * (diagnostics options and TypeScript/JavaScript compiler options)
+ */
+
+const { ScriptTarget, ModuleKind, ModuleResolutionKind, JsxEmit } = monaco.languages.typescript;
+
+// Compiler options used when no tsconfig.json / jsconfig.json applies
+const DEFAULT_JAVASCRIPT_OPTIONS: monaco.languages.typescript.CompilerOptions = {
+	target: ScriptTarget.ES2020,
+	allowNonTsExtensions: true,
+	moduleResolution: ModuleResolutionKind.NodeJs,
+	module: ModuleKind.CommonJS,
+	noEmit: true,
+	esModuleInterop: true,
+	allowJs: true,
+	checkJs: false,
+};
+
+const DEFAULT_TYPESCRIPT_OPTIONS: monaco.languages.typescript.CompilerOptions = {
+	target: ScriptTarget.ES2020,
+	allowNonTsExtensions: true,
+	moduleResolution: ModuleResolutionKind.NodeJs,
+	module: ModuleKind.CommonJS,
+	noEmit: true,
+	esModuleInterop: true,
+	jsx: JsxEmit.React,
+	allowJs: true,
+	typeRoots: ["node_modules/@types"],
+};
+
+// tsconfig string values -> TypeScript enum values (numbers the bundled TypeScript understands)
+const TARGETS: Record<string, number> = {
+	es3: 0, es5: 1, es6: 2, es2015: 2, es2016: 3, es2017: 4, es2018: 5,
+	es2019: 6, es2020: 7, es2021: 8, es2022: 9, es2023: 10, esnext: 99,
+};
+const MODULES: Record<string, number> = {
+	none: 0, commonjs: 1, amd: 2, umd: 3, system: 4, es6: 5, es2015: 5,
+	es2020: 6, es2022: 7, esnext: 99, node16: 100, nodenext: 199, preserve: 99,
+};
+const JSX: Record<string, number> = {
+	preserve: 1, react: 2, "react-native": 3, "react-jsx": 4, "react-jsxdev": 5,
+};
+
+// Emit and build options are meaningless in the editor
+const IGNORED_OPTIONS = [
+	"outDir", "outFile", "declarationDir", "tsBuildInfoFile", "composite", "incremental",
+	"declaration", "declarationMap", "emitDeclarationOnly", "sourceMap", "plugins",
+];
+
+// Last compiler options sent to the workers; changing them restarts the workers
+let appliedCompilerOptions: string | null = null;
+
+// Schemas for JSON validation and completion (see JsonSchemaManager)
+let jsonSchemas: JsonSchemaSetting[] = [];
+
+export type JsonSchemaSetting = NonNullable<monaco.languages.json.DiagnosticsOptions["schemas"]>[number];
+
+/**
+ * Apply diagnostics settings to the built-in language services
+ */
+export function configureLanguageDefaults(settings: MonacoPrettierSettings): void {
+	console.log('Configuring Monaco language defaults:', {
+		semanticValidation: settings.semanticValidation,
+		syntaxValidation: settings.syntaxValidation,
+	});
+
+	const diagnosticsOptions = {
+		noSemanticValidation: !settings.semanticValidation,
+		noSyntaxValidation: !settings.syntaxValidation,
+	};
+	monaco.languages.typescript.javascriptDefaults.setDiagnosticsOptions(diagnosticsOptions);
+	monaco.languages.typescript.typescriptDefaults.setDiagnosticsOptions(diagnosticsOptions);
+
+	applyJsonSchemas(jsonSchemas);
+
+	// Configure CSS, SCSS and LESS validation
+	monaco.languages.css.cssDefaults.setDiagnosticsOptions({ validate: true });
+	monaco.languages.css.scssDefaults.setDiagnosticsOptions({ validate: true });
+	monaco.languages.css.lessDefaults.setDiagnosticsOptions({ validate: true });
+
+	// HTML validation is enabled by default in Monaco
+
+	if (appliedCompilerOptions === null) {
+		applyProjectCompilerOptions(null);
+	}
+}
+
+/**
+ * Configure JSON validation with the given schemas
+ * Schemas are never downloaded; `$schema` references must match a provided schema's uri
+ */
+export function applyJsonSchemas(schemas: JsonSchemaSetting[]): void {
+	jsonSchemas = schemas;
+	monaco.languages.json.jsonDefaults.setDiagnosticsOptions({
+		validate: true,
+		schemas,
+		allowComments: false,
+		enableSchemaRequest: false
+	});
+}
+
+/**
+ * Apply a resolved tsconfig.json / jsconfig.json to the TypeScript and JavaScript
+ * services, or the built-in defaults when the file has none
+ */
+export function applyProjectCompilerOptions(config: TsConfigResult | null): void {
+	let typescriptOptions = DEFAULT_TYPESCRIPT_OPTIONS;
+	let javascriptOptions = DEFAULT_JAVASCRIPT_OPTIONS;
+
+	if (config) {
+		const options: monaco.languages.typescript.CompilerOptions = {
+			// jsconfig.json implies these, like tsserver does
+			...(config.isJsConfig ? { allowJs: true, allowSyntheticDefaultImports: true, skipLibCheck: true } : {}),
+			...toMonacoCompilerOptions(config.compilerOptions),
+			allowNonTsExtensions: true,
+			noEmit: true,
+		};
+		typescriptOptions = options;
+		// The JavaScript service only sees .js files, which it must accept
+		javascriptOptions = { ...options, allowJs: true };
+	}
+
+	const serialized = JSON.stringify([typescriptOptions, javascriptOptions]);
+	if (serialized === appliedCompilerOptions) return;
+	appliedCompilerOptions = serialized;
+
+	console.log(`Applying compiler options from ${config?.configPath ?? "defaults"}`);
+	monaco.languages.typescript.typescriptDefaults.setCompilerOptions(typescriptOptions);
+	monaco.languages.typescript.javascriptDefaults.setCompilerOptions(javascriptOptions);
+}
+
+/**
+ * Convert tsconfig JSON compilerOptions to the values the TypeScript worker expects:
+ * enum names become numbers, lib names become lib file names and vault paths become file:// URIs
+ * (`paths` targets are already absolute, so they need no baseUrl)
+ */
+function toMonacoCompilerOptions(raw: Record<string, any>): monaco.languages.typescript.CompilerOptions {
+	const options: monaco.languages.typescript.CompilerOptions = {};
+	const toUri = (path: string) => vaultPathToUri(path).toString();
+
+	for (const [key, value] of Object.entries(raw)) {
+		if (IGNORED_OPTIONS.includes(key)) continue;
+
+		switch (key) {
+			case "target":
+				if (TARGETS[String(value).toLowerCase()] !== undefined) options.target = TARGETS[String(value).toLowerCase()];
+				break;
+			case "module":
+				if (MODULES[String(value).toLowerCase()] !== undefined) options.module = MODULES[String(value).toLowerCase()];
+				break;
+			case "moduleResolution":
+				// Models are resolved by URI; node16/nodenext/bundler need a file system, plain Node resolution is the closest
+				options.moduleResolution = String(value).toLowerCase() === "classic"
+					? ModuleResolutionKind.Classic
+					: ModuleResolutionKind.NodeJs;
+				break;
+			case "jsx":
+				if (JSX[String(value).toLowerCase()] !== undefined) options.jsx = JSX[String(value).toLowerCase()];
+				break;
+			case "lib":
+				if (Array.isArray(value)) options.lib = value.map((lib: string) => `lib.${lib.toLowerCase()}.d.ts`);
+				break;
+			case "baseUrl":
+			case "rootDir":
+				options[key] = toUri(value);
+				break;
+			case "typeRoots":
+			case "rootDirs":
+				options[key] = (value as string[]).map(toUri);
+				break;
+			case "paths": {
+				const paths: Record<string, string[]> = {};
+				for (const [pattern, targets] of Object.entries(value as Record<string, string[]>)) {
+					paths[pattern] = targets.map(toUri);
+				}
+				options.paths = paths;
+				break;
+			}
+			default:
+				// Other enum-like string options would confuse the worker; keep plain values
+				if (typeof value === "boolean" || typeof value === "number" || Array.isArray(value)) {
+					options[key] = value;
+				}
+		}
+	}
+
+	return options;
+}
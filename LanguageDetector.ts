@@ -513,7 +513,7 @@ export class LanguageDetector {
 			"xml": "xml",
 			"yaml": "yaml",
 			"yml": "yaml",
-			"toml": "ini",
+			"toml": "toml",
 			"ini": "ini",
 			"conf": "ini",
 			"cfg": "ini",
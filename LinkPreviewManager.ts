@@ -229,7 +229,7 @@ export class LinkPreviewManager {
 			"xml": "xml",
 			"yaml": "yaml",
 			"yml": "yaml",
-			"toml": "ini",
+			"toml": "toml",
 			"ini": "ini",
 			"conf": "ini",
 			"cfg": "ini",
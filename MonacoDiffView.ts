@@ -0,0 +1,338 @@
+import { debounce, ItemView, Notice, TAbstractFile, TFile, ViewStateResult, WorkspaceLeaf } from "obsidian";
+import * as monaco from "monaco-editor";
+import MonacoPrettierPlugin from "./main";
+import { LanguageDetector } from "./LanguageDetector";
+import { CompareSource } from "./CompareFileSuggestModal";
+import { createHunkEdit, DiffSide, findLineChange } from "./DiffHunks";
+import { getIndentationOptions, getSharedEditorOptions, resolveEditorTheme } from "./EditorOptions";
+
+export const VIEW_TYPE_MONACO_DIFF = "monaco-prettier-diff";
+
+/**
+ * Persisted view state
+ * The left (original) side is either a vault file or a clipboard snapshot,
+ * the right (modified) side is always a vault file
+ */
+type MonacoDiffViewState = {
+	originalPath: string | null;
+	modifiedPath: string;
+	clipboardText?: string;
+	sideBySide?: boolean;
+};
+
+/**
+ * Split-view diff editor comparing a vault file against another file or the clipboard
+ * Edits and accepted hunks are written back through the vault
+ */
+export class MonacoDiffView extends ItemView {
+	plugin: MonacoPrettierPlugin;
+	diffEditor: monaco.editor.IStandaloneDiffEditor | null = null;
+	private originalFile: TFile | null = null;
+	private modifiedFile: TFile | null = null;
+	private clipboardText = "";
+	private sideBySide = true;
+	private lastFocusedSide: DiffSide = "modified";
+	private models: monaco.editor.ITextModel[] = [];
+	// Content this view last wrote per side (same order as models), so its own writes aren't reloaded
+	private lastWritten: (string | null)[] = [null, null];
+	private disposables: monaco.IDisposable[] = [];
+	private languageDetector = new LanguageDetector();
+
+	// Debounced vault writes per side, so typing doesn't hit the disk on every keystroke
+	private saveOriginal = debounce(() => this.writeSide("original"), 1000, true);
+	private saveModified = debounce(() => this.writeSide("modified"), 1000, true);
+
+	constructor(leaf: WorkspaceLeaf, plugin: MonacoPrettierPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	/**
+	 * Open a diff view comparing `original` (left) against `modified` (right)
+	 */
+	static async open(plugin: MonacoPrettierPlugin, original: CompareSource, modified: TFile): Promise<void> {
+		const state: MonacoDiffViewState = {
+			originalPath: original.type === "file" ? original.file.path : null,
+			modifiedPath: modified.path,
+		};
+
+		if (original.type === "clipboard") {
+			try {
+				state.clipboardText = await navigator.clipboard.readText();
+			} catch (error) {
+				console.error("Monaco Diff: Failed to read clipboard:", error);
+				new Notice("Could not read the clipboard");
+				return;
+			}
+		}
+
+		const leaf = plugin.app.workspace.getLeaf("tab");
+		await leaf.setViewState({ type: VIEW_TYPE_MONACO_DIFF, active: true, state });
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_MONACO_DIFF;
+	}
+
+	getDisplayText(): string {
+		if (!this.modifiedFile) return "Monaco Diff";
+		const left = this.originalFile?.name ?? "Clipboard";
+		return `${left} ↔ ${this.modifiedFile.name}`;
+	}
+
+	getIcon(): string {
+		return "diff";
+	}
+
+	async onOpen(): Promise<void> {
+		this.contentEl.empty();
+		this.contentEl.style.padding = "0";
+		this.contentEl.style.overflow = "hidden";
+
+		this.addAction("check-check", "Accept change from right into left", () => this.acceptHunk("modified"));
+		this.addAction("check", "Accept change from left into right", () => this.acceptHunk("original"));
+		this.addAction("columns", "Toggle inline / side-by-side", () => this.toggleSideBySide());
+		this.addAction("arrow-down", "Next change", () => this.diffEditor?.goToDiff("next"));
+		this.addAction("arrow-up", "Previous change", () => this.diffEditor?.goToDiff("previous"));
+
+		// Keep the models in sync with changes made outside this view
+		this.registerEvent(this.app.vault.on("modify", (file) => this.onVaultModify(file)));
+		this.registerEvent(this.app.vault.on("delete", (file) => this.onVaultDelete(file)));
+		this.registerEvent(this.app.vault.on("rename", () => this.refreshHeader()));
+	}
+
+	getState(): Record<string, unknown> {
+		const state: MonacoDiffViewState = {
+			originalPath: this.originalFile?.path ?? null,
+			modifiedPath: this.modifiedFile?.path ?? "",
+			sideBySide: this.sideBySide,
+		};
+		if (!this.originalFile) {
+			state.clipboardText = this.clipboardText;
+		}
+		return { ...super.getState(), ...state };
+	}
+
+	async setState(state: MonacoDiffViewState, result: ViewStateResult): Promise<void> {
+		const modified = this.app.vault.getAbstractFileByPath(state.modifiedPath);
+		const original = state.originalPath ? this.app.vault.getAbstractFileByPath(state.originalPath) : null;
+
+		if (modified instanceof TFile && (state.originalPath === null || original instanceof TFile)) {
+			this.modifiedFile = modified;
+			this.originalFile = original instanceof TFile ? original : null;
+			this.clipboardText = state.clipboardText ?? "";
+			this.sideBySide = state.sideBySide ?? true;
+			await this.loadDiff();
+		} else {
+			console.warn("Monaco Diff: Could not restore diff, file missing:", state);
+		}
+
+		await super.setState(state, result);
+		this.refreshHeader();
+	}
+
+	private refreshHeader(): void {
+		// updateHeader is not part of the public API typings
+		(this.leaf as any).updateHeader?.();
+	}
+
+	/**
+	 * (Re)create the diff editor for the current files
+	 */
+	private async loadDiff(): Promise<void> {
+		if (!this.modifiedFile) return;
+
+		this.disposeEditor();
+
+		const language = this.languageDetector.getLanguageFromExtension(this.modifiedFile.extension);
+		const originalLanguage = this.originalFile
+			? this.languageDetector.getLanguageFromExtension(this.originalFile.extension)
+			: language;
+
+		const originalText = this.originalFile ? await this.app.vault.read(this.originalFile) : this.clipboardText;
+		const modifiedText = await this.app.vault.read(this.modifiedFile);
+
+		const originalModel = monaco.editor.createModel(originalText, originalLanguage);
+		const modifiedModel = monaco.editor.createModel(modifiedText, language);
+		this.models = [originalModel, modifiedModel];
+
+		const indentation = getIndentationOptions(this.plugin);
+		originalModel.updateOptions(indentation);
+		modifiedModel.updateOptions(indentation);
+
+		const container = this.contentEl.createDiv();
+		container.style.width = "100%";
+		container.style.height = "100%";
+
+		this.diffEditor = monaco.editor.createDiffEditor(container, {
+			...getSharedEditorOptions(this.plugin),
+			theme: resolveEditorTheme(this.plugin),
+			renderSideBySide: this.sideBySide,
+			useInlineViewWhenSpaceIsLimited: false,
+			enableSplitViewResizing: true,
+			originalEditable: this.originalFile !== null,
+			readOnly: false,
+		});
+		this.diffEditor.setModel({ original: originalModel, modified: modifiedModel });
+
+		const originalEditor = this.diffEditor.getOriginalEditor();
+		const modifiedEditor = this.diffEditor.getModifiedEditor();
+
+		this.disposables.push(
+			originalEditor.onDidFocusEditorText(() => (this.lastFocusedSide = "original")),
+			modifiedEditor.onDidFocusEditorText(() => (this.lastFocusedSide = "modified")),
+			originalModel.onDidChangeContent(() => {
+				if (this.originalFile) this.saveOriginal();
+			}),
+			modifiedModel.onDidChangeContent(() => this.saveModified())
+		);
+
+		for (const editor of [originalEditor, modifiedEditor]) {
+			this.addEditorActions(editor);
+		}
+	}
+
+	/**
+	 * Register navigation and accept-hunk actions (keybindings + context menu) on one side
+	 */
+	private addEditorActions(editor: monaco.editor.IStandaloneCodeEditor): void {
+		this.disposables.push(
+			editor.addAction({
+				id: "monaco-prettier.diff.nextChange",
+				label: "Go to Next Change",
+				keybindings: [monaco.KeyMod.Alt | monaco.KeyCode.F5],
+				run: () => this.diffEditor?.goToDiff("next"),
+			}),
+			editor.addAction({
+				id: "monaco-prettier.diff.previousChange",
+				label: "Go to Previous Change",
+				keybindings: [monaco.KeyMod.Shift | monaco.KeyMod.Alt | monaco.KeyCode.F5],
+				run: () => this.diffEditor?.goToDiff("previous"),
+			}),
+			editor.addAction({
+				id: "monaco-prettier.diff.acceptFromLeft",
+				label: "Accept Change from Left",
+				contextMenuGroupId: "1_diff",
+				contextMenuOrder: 1,
+				run: () => this.acceptHunk("original"),
+			}),
+			editor.addAction({
+				id: "monaco-prettier.diff.acceptFromRight",
+				label: "Accept Change from Right",
+				contextMenuGroupId: "1_diff",
+				contextMenuOrder: 2,
+				run: () => this.acceptHunk("modified"),
+			})
+		);
+	}
+
+	/**
+	 * Copy the hunk at the cursor from one side into the other
+	 * @param from The side whose version of the hunk is kept
+	 */
+	acceptHunk(from: DiffSide): void {
+		if (!this.diffEditor) return;
+
+		if (from === "modified" && !this.originalFile) {
+			new Notice("The clipboard side is read-only");
+			return;
+		}
+
+		const changes = this.diffEditor.getLineChanges() ?? [];
+		if (changes.length === 0) {
+			new Notice("No differences");
+			return;
+		}
+
+		const side = this.lastFocusedSide;
+		const editor = side === "original" ? this.diffEditor.getOriginalEditor() : this.diffEditor.getModifiedEditor();
+		const position = editor.getPosition();
+		const change = position ? findLineChange(changes, position.lineNumber, side) : null;
+
+		if (!change) {
+			new Notice("Place the cursor inside a change to accept it");
+			return;
+		}
+
+		const [originalModel, modifiedModel] = this.models;
+		const source = from === "original" ? originalModel : modifiedModel;
+		const target = from === "original" ? modifiedModel : originalModel;
+		const targetEditor = from === "original" ? this.diffEditor.getModifiedEditor() : this.diffEditor.getOriginalEditor();
+
+		targetEditor.pushUndoStop();
+		targetEditor.executeEdits("monaco-prettier-diff", [createHunkEdit(change, source, target, from)]);
+		targetEditor.pushUndoStop();
+	}
+
+	toggleSideBySide(): void {
+		this.sideBySide = !this.sideBySide;
+		this.diffEditor?.updateOptions({ renderSideBySide: this.sideBySide });
+		this.app.workspace.requestSaveLayout();
+	}
+
+	/**
+	 * Write one side's model back to its vault file
+	 */
+	private async writeSide(side: DiffSide): Promise<void> {
+		const file = side === "original" ? this.originalFile : this.modifiedFile;
+		const index = side === "original" ? 0 : 1;
+		const model = this.models[index];
+		if (!file || !model || model.isDisposed()) return;
+
+		const content = model.getValue();
+		try {
+			if (content !== (await this.app.vault.read(file))) {
+				this.lastWritten[index] = content;
+				await this.app.vault.modify(file, content);
+			}
+		} catch (error) {
+			console.error(`Monaco Diff: Failed to write ${file.path}:`, error);
+			new Notice(`Failed to save ${file.name}: ${(error as Error).message}`);
+		}
+	}
+
+	private async onVaultModify(file: TAbstractFile): Promise<void> {
+		if (!(file instanceof TFile)) return;
+
+		const index = file === this.originalFile ? 0 : file === this.modifiedFile ? 1 : -1;
+		const model = this.models[index];
+		if (!model || model.isDisposed()) return;
+
+		// Only reload external changes; edits typed since our own write would be lost otherwise
+		const content = await this.app.vault.read(file);
+		if (content === this.lastWritten[index]) return;
+		this.lastWritten[index] = null;
+		if (content !== model.getValue()) {
+			// Replace through an edit so the change stays undoable
+			model.pushEditOperations([], [{ range: model.getFullModelRange(), text: content }], () => null);
+		}
+	}
+
+	private onVaultDelete(file: TAbstractFile): void {
+		if (file === this.originalFile || file === this.modifiedFile) {
+			this.leaf.detach();
+		}
+	}
+
+	private disposeEditor(): void {
+		this.disposables.forEach((disposable) => disposable.dispose());
+		this.disposables = [];
+		this.diffEditor?.dispose();
+		this.diffEditor = null;
+		this.models.forEach((model) => model.dispose());
+		this.models = [];
+		this.lastWritten = [null, null];
+		this.contentEl.empty();
+	}
+
+	onResize(): void {
+		this.diffEditor?.layout();
+	}
+
+	async onClose(): Promise<void> {
+		// Flush pending writes before the models go away
+		this.saveOriginal.run();
+		this.saveModified.run();
+		this.disposeEditor();
+	}
+}
@@ -1,54 +1,80 @@
-import { TextFileView, TFile, WorkspaceLeaf } from "obsidian";
+import { Notice, TextFileView, TFile, WorkspaceLeaf } from "obsidian";
 import * as monaco from "monaco-editor";
-import * as prettier from "prettier";
 import MonacoPrettierPlugin from "./main";
 import { LanguageDetector } from "./LanguageDetector";
 import { ValidationManager } from "./ValidationManager";
+import { ProblemsView } from "./ProblemsView";
+import { FormatterRegistry } from "./FormatterRegistry";
+import { applyFormattedText } from "./TextEdits";
+import { uriToVaultPath, vaultPathToUri } from "./VaultUri";
+import { EditorConfigResolver, EditorConfigResult } from "./EditorConfigResolver";
+import { FormatPreviewModal } from "./FormatPreviewModal";
+import { VaultRename } from "./VaultRename";
+import { getIndentationOptions, getSharedEditorOptions, resolveEditorTheme } from "./EditorOptions";
+import { applyProjectCompilerOptions, configureLanguageDefaults } from "./LanguageDefaults";
+import { XmlLanguage } from "./XmlLanguage";
 
 
 export const VIEW_TYPE_MONACO_PRETTIER = "monaco-prettier-editor";
 
-// Configure Monaco environment to disable web workers
-// This prevents "Unexpected usage" errors in Obsidian's bundled environment
-(self as any).MonacoEnvironment = {
-	getWorker() {
-		return new Worker('', { type: 'module' });
-	}
-};
-
 export class MonacoPrettierView extends TextFileView {
 	plugin: MonacoPrettierPlugin;
 	editor: monaco.editor.IStandaloneCodeEditor | null = null;
-	private formatOnTypeDisposable: monaco.IDisposable | null = null;
-	private static monacoConfigured = false;
 	private languageDetector: LanguageDetector;
 	private isLoadingFile = false;
+	private editorConfig: EditorConfigResult | null = null;
+	// Content changed since the last format on save (closing an untouched file never formats it)
+	private modifiedSinceFormat = false;
+	// Navigation target requested before the file finished loading
+	private pendingReveal: monaco.IRange | monaco.IPosition | null = null;
+	// Lists this editor's markers in the Problems view
+	private problemsTracking: monaco.IDisposable | null = null;
 
 	constructor(leaf: WorkspaceLeaf, plugin: MonacoPrettierPlugin) {
 		super(leaf);
 		this.plugin = plugin;
 		this.languageDetector = new LanguageDetector();
-		
-		// Configure Monaco environment once
-		if (!MonacoPrettierView.monacoConfigured) {
-			this.configureMonacoEnvironment();
-			MonacoPrettierView.monacoConfigured = true;
+	}
+
+	/**
+	 * Open a vault file in a Monaco editor (reusing a leaf that already shows it) and reveal a range
+	 */
+	static async openAt(
+		plugin: MonacoPrettierPlugin,
+		file: TFile,
+		selectionOrPosition?: monaco.IRange | monaco.IPosition
+	): Promise<void> {
+		const workspace = plugin.app.workspace;
+		let leaf = workspace.getLeavesOfType(VIEW_TYPE_MONACO_PRETTIER)
+			.find((candidate) => (candidate.view as MonacoPrettierView).file === file);
+
+		if (leaf) {
+			workspace.setActiveLeaf(leaf, { focus: true });
+		} else {
+			leaf = workspace.getLeaf("tab");
+			await leaf.setViewState({ type: VIEW_TYPE_MONACO_PRETTIER, active: true, state: { file: file.path } });
+		}
+
+		if (selectionOrPosition && leaf.view instanceof MonacoPrettierView) {
+			leaf.view.revealTarget(selectionOrPosition);
 		}
 	}
-	
-	private configureMonacoEnvironment(): void {
-		// Disable web workers to prevent module loading errors
-		(window as any).MonacoEnvironment = {
-			getWorker(): Worker {
-				// Return a dummy worker to satisfy Monaco's requirements
-				return {
-					postMessage: () => {},
-					addEventListener: () => {},
-					removeEventListener: () => {},
-					terminate: () => {},
-				} as any;
-			}
-		};
+
+	/**
+	 * Route go to definition, peek and references navigation into other vault files
+	 * (Monaco only navigates within the current model on its own)
+	 */
+	static registerEditorOpener(plugin: MonacoPrettierPlugin): monaco.IDisposable {
+		return monaco.editor.registerEditorOpener({
+			openCodeEditor: async (source, resource, selectionOrPosition) => {
+				const path = uriToVaultPath(resource);
+				const file = path !== null ? plugin.app.vault.getAbstractFileByPath(path) : null;
+				if (!(file instanceof TFile)) return false;
+
+				await MonacoPrettierView.openAt(plugin, file, selectionOrPosition);
+				return true;
+			},
+		});
 	}
 
 	getViewType(): string {
@@ -78,41 +104,26 @@ export class MonacoPrettierView extends TextFileView {
 			});
 		}
 		
-		// Create Monaco editor settings
-		const settings = this.plugin.settings;
-		
-		// Determine theme to use
-		let theme = settings.selectedTheme;
-		if (settings.transparentBackground) {
-			theme = this.plugin.themeManager.createTransparentTheme(theme);
-		}
-		
-		// Apply selected theme
-		this.plugin.themeManager.applyTheme(settings.selectedTheme);
+		// Determine and apply theme to use
+		const theme = resolveEditorTheme(this.plugin);
 		
-		// Configure TypeScript/JavaScript validation settings
-		this.configureLanguageDefaults();
+		// Configure validation settings and the project's compiler options
+		configureLanguageDefaults(this.plugin.settings);
+		await this.applyTsConfig();
 		
 		console.log('Monaco Prettier: Creating editor...');
 		
 		// Create Monaco editor directly in contentEl (like vscode-editor)
 		this.editor = monaco.editor.create(this.contentEl, {
-			automaticLayout: true,
-			language: this.getLanguageFromExtension(file.extension),
+			...getSharedEditorOptions(this.plugin),
+			...getIndentationOptions(this.plugin),
+			model: this.acquireModel(file),
 			theme: theme,
-			fontSize: settings.fontSize,
-			fontFamily: settings.fontFamily,
-			fontLigatures: settings.fontLigatures,
-			lineNumbers: settings.lineNumbers ? "on" : "off",
 			glyphMargin: true, // Show error/warning icons in glyph margin
-			minimap: { enabled: settings.minimap },
-			wordWrap: settings.wordWrap ? "on" : "off",
-			folding: settings.folding,
-			tabSize: settings.tabWidth,
-			insertSpaces: !settings.useTabs,
-			scrollBeyondLastLine: false,
 			renderWhitespace: "selection",
 			bracketPairColorization: { enabled: true },
+			// Prettier reformats after `;`, `}` and Enter (see PrettierFormatter)
+			formatOnType: this.plugin.settings.formatOnType,
 			// Enable hover tooltips
 			hover: {
 				enabled: true,
@@ -147,6 +158,7 @@ export class MonacoPrettierView extends TextFileView {
 		this.editor.onDidChangeModelContent(async () => {
 			// Don't save during initial file load
 			if (!this.isLoadingFile) {
+				this.modifiedSinceFormat = true;
 				this.requestSave();
 			}
 			
@@ -154,8 +166,36 @@ export class MonacoPrettierView extends TextFileView {
 			this.runValidation();
 		});
 		
+		// Close XML/HTML tags as they are typed
+		XmlLanguage.attachTagAutoClose(this.editor, () => this.plugin.settings.xmlTagEditing);
+		
+		// Context menu entry for formatting only the selection
+		this.editor.addAction({
+			id: "monaco-prettier.formatSelection",
+			label: "Format Selection with Prettier",
+			contextMenuGroupId: "1_modification",
+			contextMenuOrder: 1.5,
+			run: () => this.formatSelection(),
+		});
+		
+		// F2 renames across every vault TypeScript/JavaScript file instead of only this model
+		this.editor.addAction({
+			id: "monaco-prettier.renameSymbol",
+			label: "Rename Symbol in Vault",
+			keybindings: [monaco.KeyCode.F2],
+			contextMenuGroupId: "1_modification",
+			contextMenuOrder: 1.1,
+			run: () => this.renameSymbol(),
+		});
+		
 		// Add keyboard handlers like vscode-editor
 		this.addKeyboardEventHandlers();
+
+		this.problemsTracking = ProblemsView.trackEditor({
+			editor: this.editor,
+			getTitle: () => this.file?.path ?? file.path,
+			activate: () => this.app.workspace.setActiveLeaf(this.leaf, { focus: true }),
+		});
 		
 		console.log('Monaco Prettier: Calling super.onLoadFile');
 		
@@ -167,6 +207,9 @@ export class MonacoPrettierView extends TextFileView {
 		// File is now loaded, allow saves from content changes
 		this.isLoadingFile = false;
 		
+		// Apply .editorconfig indentation and line endings to the loaded model
+		await this.applyEditorConfig();
+		
 		// Force multiple layout passes to ensure proper sizing
 		if (this.editor) {
 			// Get actual dimensions
@@ -186,6 +229,11 @@ export class MonacoPrettierView extends TextFileView {
 				}
 			}, 50);
 		}
+		
+		if (this.pendingReveal) {
+			this.revealTarget(this.pendingReveal);
+			this.pendingReveal = null;
+		}
 	}
 	
 	// TextFileView calls this to set the file content
@@ -257,78 +305,6 @@ export class MonacoPrettierView extends TextFileView {
 		}
 	}
 
-	private configureLanguageDefaults(): void {
-		const settings = this.plugin.settings;
-		
-		console.log('Configuring Monaco language defaults:', {
-			semanticValidation: settings.semanticValidation,
-			syntaxValidation: settings.syntaxValidation,
-			noSemanticValidation: !settings.semanticValidation,
-			noSyntaxValidation: !settings.syntaxValidation
-		});
-		
-		// Configure JavaScript language defaults
-		monaco.languages.typescript.javascriptDefaults.setDiagnosticsOptions({
-			noSemanticValidation: !settings.semanticValidation,
-			noSyntaxValidation: !settings.syntaxValidation,
-		});
-
-		// Configure TypeScript language defaults
-		monaco.languages.typescript.typescriptDefaults.setDiagnosticsOptions({
-			noSemanticValidation: !settings.semanticValidation,
-			noSyntaxValidation: !settings.syntaxValidation,
-		});
-
-		// Enable more helpful compiler options for better validation
-		monaco.languages.typescript.javascriptDefaults.setCompilerOptions({
-			target: monaco.languages.typescript.ScriptTarget.ES2020,
-			allowNonTsExtensions: true,
-			moduleResolution: monaco.languages.typescript.ModuleResolutionKind.NodeJs,
-			module: monaco.languages.typescript.ModuleKind.CommonJS,
-			noEmit: true,
-			esModuleInterop: true,
-			allowJs: true,
-			checkJs: false,
-		});
-
-		monaco.languages.typescript.typescriptDefaults.setCompilerOptions({
-			target: monaco.languages.typescript.ScriptTarget.ES2020,
-			allowNonTsExtensions: true,
-			moduleResolution: monaco.languages.typescript.ModuleResolutionKind.NodeJs,
-			module: monaco.languages.typescript.ModuleKind.CommonJS,
-			noEmit: true,
-			esModuleInterop: true,
-			jsx: monaco.languages.typescript.JsxEmit.React,
-			allowJs: true,
-			typeRoots: ["node_modules/@types"],
-		});
-
-		// Configure JSON validation
-		monaco.languages.json.jsonDefaults.setDiagnosticsOptions({
-			validate: true,
-			schemas: [],
-			allowComments: false,
-			enableSchemaRequest: false
-		});
-
-		// Configure CSS validation
-		monaco.languages.css.cssDefaults.setDiagnosticsOptions({
-			validate: true
-		});
-
-		// Configure SCSS validation
-		monaco.languages.css.scssDefaults.setDiagnosticsOptions({
-			validate: true
-		});
-
-		// Configure LESS validation
-		monaco.languages.css.lessDefaults.setDiagnosticsOptions({
-			validate: true
-		});
-
-		// HTML validation is enabled by default in Monaco
-	}
-
 	private addKeyboardEventHandlers(): void {
 		// Fix Obsidian's global keyboard event capture preventing Monaco shortcuts
 		// Obsidian uses capture phase (useCapture=true) which blocks Monaco
@@ -365,6 +341,13 @@ export class MonacoPrettierView extends TextFileView {
 			}
 		}
 
+		// Ctrl/Cmd+S saves explicitly, applying on-save whitespace rules first
+		if ((event.ctrlKey || event.metaKey) && event.key === 's') {
+			event.preventDefault();
+			event.stopPropagation();
+			this.saveExplicitly();
+		}
+
 		// Alt+Z to toggle word wrap
 		if (event.altKey && event.key === 'z') {
 			event.preventDefault();
@@ -377,61 +360,322 @@ export class MonacoPrettierView extends TextFileView {
 		}
 	};
 
-	private setupFormatOnType(): void {
-		if (!this.editor) return;
+	/**
+	 * Resolve .editorconfig for the file and apply it to the model
+	 */
+	private async applyEditorConfig(): Promise<void> {
+		const model = this.editor?.getModel();
+		if (!model || !this.file) return;
+
+		this.editorConfig = null;
+		if (this.plugin.settings.useEditorConfig) {
+			try {
+				this.editorConfig = await this.plugin.editorConfigResolver.resolve(this.file.path);
+			} catch (error) {
+				console.error("EditorConfig: failed to resolve:", error);
+			}
+		}
+
+		const properties = this.editorConfig?.properties ?? {};
+		const indentWidth = EditorConfigResolver.getIndentWidth(properties);
 
-		// Clean up previous disposable
-		if (this.formatOnTypeDisposable) {
-			this.formatOnTypeDisposable.dispose();
+		if (properties.indent_style || indentWidth !== undefined) {
+			model.updateOptions({
+				insertSpaces: properties.indent_style
+					? properties.indent_style === "space"
+					: !this.plugin.settings.useTabs,
+				tabSize: properties.tab_width ?? indentWidth ?? this.plugin.settings.tabWidth,
+				indentSize: properties.indent_size === "tab" ? "tabSize" : indentWidth ?? "tabSize",
+			});
 		}
 
-		// Format on type with debouncing
-		let timeout: NodeJS.Timeout;
-		this.formatOnTypeDisposable = this.editor.onDidChangeModelContent(() => {
-			clearTimeout(timeout);
-			timeout = setTimeout(() => {
-				this.formatDocument();
-			}, 1000);
-		});
+		if (properties.end_of_line === "lf") {
+			model.setEOL(monaco.editor.EndOfLineSequence.LF);
+		} else if (properties.end_of_line === "crlf") {
+			model.setEOL(monaco.editor.EndOfLineSequence.CRLF);
+		} else if (properties.end_of_line === "cr") {
+			console.warn("EditorConfig: end_of_line = cr is not supported by Monaco, keeping", model.getEOL() === "\r\n" ? "CRLF" : "LF");
+		}
+
+		// Obsidian always reads and writes UTF-8
+		if (properties.charset && !properties.charset.startsWith("utf-8")) {
+			new Notice(`${this.file.name}: charset "${properties.charset}" from .editorconfig is not supported, the file is saved as UTF-8`);
+		}
+
+		this.updateStatusBar();
+	}
+
+	/**
+	 * Move the cursor to a position or select a range and scroll it into view
+	 */
+	revealTarget(selectionOrPosition: monaco.IRange | monaco.IPosition): void {
+		if (!this.editor || this.isLoadingFile) {
+			this.pendingReveal = selectionOrPosition;
+			return;
+		}
+
+		if (monaco.Range.isIRange(selectionOrPosition)) {
+			this.editor.setSelection(selectionOrPosition);
+			this.editor.revealRangeInCenterIfOutsideViewport(selectionOrPosition, monaco.editor.ScrollType.Immediate);
+		} else {
+			this.editor.setPosition(selectionOrPosition);
+			this.editor.revealPositionInCenterIfOutsideViewport(selectionOrPosition, monaco.editor.ScrollType.Immediate);
+		}
+		this.editor.focus();
+	}
+
+	/**
+	 * Apply the nearest tsconfig.json / jsconfig.json to the TypeScript and JavaScript services
+	 * The services are shared, so the active script file decides which project is in effect
+	 */
+	async applyTsConfig(): Promise<void> {
+		if (!this.file) return;
+		const language = this.languageDetector.getLanguageFromExtension(this.file.extension);
+		if (language !== "typescript" && language !== "javascript") return;
+
+		try {
+			applyProjectCompilerOptions(await this.plugin.tsConfigResolver.resolve(this.file.path));
+		} catch (error) {
+			console.error("tsconfig: failed to resolve:", error);
+		}
+	}
+
+	/**
+	 * Show the applied indentation, line ending and charset with their source in the status bar
+	 */
+	updateStatusBar(): void {
+		const statusEl = this.plugin.editorConfigStatusEl;
+		const model = this.editor?.getModel();
+		if (!model) {
+			statusEl.hide();
+			return;
+		}
+
+		const options = model.getOptions();
+		const indentation = options.insertSpaces ? `Spaces: ${options.indentSize}` : `Tab size: ${options.tabSize}`;
+		const eol = model.getEOL() === "\r\n" ? "CRLF" : "LF";
+		const charset = (this.editorConfig?.properties.charset ?? "utf-8").toUpperCase();
+		const sources = this.editorConfig?.sources ?? [];
+		const source = sources.length > 0 ? "EditorConfig" : "Settings";
+
+		statusEl.setText(`${indentation} · ${eol} · ${charset} (${source})`);
+		statusEl.setAttr("aria-label", sources.length > 0 ? sources.join("\n") : "No .editorconfig applies to this file");
+		statusEl.show();
+	}
+
+	/**
+	 * Explicit save (Ctrl/Cmd+S): format on save, apply insert_final_newline /
+	 * trim_trailing_whitespace, then save
+	 */
+	async saveExplicitly(): Promise<void> {
+		await this.formatBeforeSave();
+
+		const model = this.editor?.getModel();
+		if (!this.editor || !model) return;
+
+		const edits = this.getOnSaveWhitespaceEdits(model);
+		if (edits.length > 0) {
+			this.editor.pushUndoStop();
+			this.editor.executeEdits("editorconfig", edits);
+			this.editor.pushUndoStop();
+		}
+
+		await this.save();
+	}
+
+	/**
+	 * Format the buffer before it is written when format on save is enabled
+	 * Skipped when the file has errors; failures and timeouts are logged and the
+	 * unformatted content is saved instead
+	 */
+	private async formatBeforeSave(): Promise<void> {
+		const model = this.editor?.getModel();
+		if (!this.plugin.settings.formatOnSave || !this.editor || !model || !this.file) return;
+
+		this.modifiedSinceFormat = false;
+
+		const hasErrors = monaco.editor
+			.getModelMarkers({ resource: model.uri })
+			.some((marker) => marker.severity === monaco.MarkerSeverity.Error);
+		if (hasErrors) {
+			console.log(`Format on save: skipped ${this.file.path}, the file has errors`);
+			return;
+		}
+
+		const original = model.getValue();
+		const versionId = model.getVersionId();
+		const timeout = this.plugin.settings.formatOnSaveTimeout;
+
+		let formatted: string | null;
+		let timer: number | undefined;
+		try {
+			formatted = await Promise.race([
+				FormatterRegistry.format(original, this.file.path, this.plugin.settings),
+				new Promise<never>((_, reject) => {
+					timer = window.setTimeout(() => reject(new Error(`timed out after ${timeout} ms`)), timeout);
+				}),
+			]);
+		} catch (error) {
+			console.warn(`Format on save failed for ${this.file.path}, saving unformatted:`, error);
+			return;
+		} finally {
+			window.clearTimeout(timer);
+		}
+
+		// Don't overwrite edits made while the formatter was running
+		if (formatted === null || model.isDisposed() || model.getVersionId() !== versionId) return;
+
+		if (this.editor) {
+			applyFormattedText(this.editor, formatted);
+		}
+	}
+
+	private getOnSaveWhitespaceEdits(model: monaco.editor.ITextModel): monaco.editor.IIdentifiedSingleEditOperation[] {
+		const properties = this.editorConfig?.properties;
+		if (!properties) return [];
+
+		const edits: monaco.editor.IIdentifiedSingleEditOperation[] = [];
+		const lineCount = model.getLineCount();
+
+		if (properties.trim_trailing_whitespace) {
+			for (let line = 1; line <= lineCount; line++) {
+				const content = model.getLineContent(line);
+				const trimmedLength = content.replace(/[ \t]+$/, "").length;
+				if (trimmedLength < content.length) {
+					edits.push({
+						range: new monaco.Range(line, trimmedLength + 1, line, content.length + 1),
+						text: "",
+					});
+				}
+			}
+		}
+
+		if (properties.insert_final_newline === true) {
+			let lastLine = model.getLineContent(lineCount);
+			const lastEdit = edits[edits.length - 1];
+			const lastLineTrimmed = lastEdit?.range.startLineNumber === lineCount;
+			if (lastLineTrimmed) {
+				lastLine = lastLine.replace(/[ \t]+$/, "");
+			}
+
+			if (lastLine.length > 0) {
+				if (lastLineTrimmed) {
+					// Reuse the trim edit so the two edits don't touch the same position
+					lastEdit.text = model.getEOL();
+				} else {
+					const column = model.getLineMaxColumn(lineCount);
+					edits.push({ range: new monaco.Range(lineCount, column, lineCount, column), text: model.getEOL() });
+				}
+			}
+		} else if (properties.insert_final_newline === false) {
+			// Remove trailing empty lines so the file doesn't end with a newline
+			let lastContentLine = lineCount;
+			while (lastContentLine > 1 && model.getLineContent(lastContentLine) === "") {
+				lastContentLine--;
+			}
+			if (lastContentLine < lineCount) {
+				edits.push({
+					range: new monaco.Range(
+						lastContentLine,
+						model.getLineMaxColumn(lastContentLine),
+						lineCount,
+						model.getLineMaxColumn(lineCount)
+					),
+					text: "",
+				});
+			}
+		}
+
+		return edits;
 	}
 
 	async formatDocument(): Promise<void> {
 		if (!this.editor || !this.file) return;
 
+		const model = this.editor.getModel();
+		if (!model) return;
+
 		try {
-			const currentValue = this.editor.getValue();
-			const parser = this.getPrettierParser(this.file.extension);
+			const versionId = model.getVersionId();
+			const formatted = await FormatterRegistry.format(model.getValue(), this.file.path, this.plugin.settings);
 			
-			if (!parser) {
-				console.log("No Prettier parser available for", this.file.extension);
+			if (formatted === null) {
+				new Notice(await FormatterRegistry.describeUnavailable(this.file.path, this.plugin.settings));
 				return;
 			}
 
-			const formatted = await prettier.format(currentValue, {
-				parser,
-				plugins: [],
-				tabWidth: this.plugin.settings.tabWidth,
-				useTabs: this.plugin.settings.useTabs,
-				semi: this.plugin.settings.semi,
-				singleQuote: this.plugin.settings.singleQuote,
-				trailingComma: this.plugin.settings.trailingComma,
-				bracketSpacing: this.plugin.settings.bracketSpacing,
-				arrowParens: this.plugin.settings.arrowParens,
-				printWidth: this.plugin.settings.printWidth,
-			});
-
-			if (formatted !== currentValue) {
-				const position = this.editor.getPosition();
-				this.editor.setValue(formatted);
-				if (position) {
-					this.editor.setPosition(position);
-				}
+			// Don't overwrite edits made while the formatter was running
+			if (!this.editor || model.isDisposed() || model.getVersionId() !== versionId) {
+				new Notice("The file changed while formatting, format again to apply");
+				return;
 			}
+
+			applyFormattedText(this.editor, formatted);
 		} catch (error) {
-			console.error("Prettier formatting error:", error);
+			console.error("Formatting error:", error);
+			new Notice(`Formatting failed: ${(error as Error).message}`);
 		}
 	}
 
+	/**
+	 * Format only the selected range through the registered Prettier range provider
+	 */
+	async formatSelection(): Promise<void> {
+		if (!this.editor) return;
+
+		const selection = this.editor.getSelection();
+		if (!selection || selection.isEmpty()) {
+			new Notice("Select the code to format first");
+			return;
+		}
+
+		await this.editor.getAction("editor.action.formatSelection")?.run();
+	}
+
+	/**
+	 * Rename the symbol at the cursor in every vault file; languages without
+	 * the TypeScript service use Monaco's single-file rename
+	 */
+	async renameSymbol(): Promise<void> {
+		if (!this.editor) return;
+
+		const handled = await VaultRename.start(this.plugin, this.editor);
+		if (!handled) {
+			await this.editor.getAction("editor.action.rename")?.run();
+		}
+	}
+
+	/**
+	 * Show the formatter result as a diff and apply only the accepted hunks
+	 */
+	async formatDocumentWithPreview(): Promise<void> {
+		if (!this.editor || !this.file) return;
+
+		const model = this.editor.getModel();
+		if (!model) return;
+
+		let formatted: string | null;
+		try {
+			formatted = await FormatterRegistry.format(model.getValue(), this.file.path, this.plugin.settings);
+		} catch (error) {
+			console.error("Formatting error:", error);
+			new Notice(`Formatting failed: ${(error as Error).message}`);
+			return;
+		}
+
+		if (formatted === null) {
+			new Notice(await FormatterRegistry.describeUnavailable(this.file.path, this.plugin.settings));
+			return;
+		}
+
+		if (formatted === model.getValue()) {
+			new Notice("Already formatted");
+			return;
+		}
+
+		new FormatPreviewModal(this.plugin, this.editor, formatted).open();
+	}
+
 	private getLanguageFromExtension(ext: string): string {
 		// Use LanguageDetector with auto-detection if enabled
 		if (this.plugin.settings.autoDetectLanguage && this.editor) {
@@ -442,39 +686,20 @@ export class MonacoPrettierView extends TextFileView {
 		return this.languageDetector.getLanguageFromExtension(ext);
 	}
 
-	private getPrettierParser(ext: string): string | null {
-		const parserMap: Record<string, string> = {
-			ts: "typescript",
-			tsx: "typescript",
-			js: "babel",
-			jsx: "babel",
-			json: "json",
-			css: "css",
-			scss: "scss",
-			less: "less",
-			html: "html",
-			md: "markdown",
-			yaml: "yaml",
-			yml: "yaml",
-		};
-		return parserMap[ext] || null;
-	}
-
 	async onUnloadFile(file: TFile): Promise<void> {
 		console.log('MonacoView.onUnloadFile: Starting cleanup for:', file.name);
 		
 		// Mark as loading to prevent any spurious saves during cleanup
 		this.isLoadingFile = true;
+
+		// Format edits from this session before the final save below
+		if (this.modifiedSinceFormat) {
+			await this.formatBeforeSave();
+		}
 		
 		// Clean up keyboard event listener
 		window.removeEventListener('keydown', this.handleKeyDown, true);
 		
-		// Clean up format on type
-		if (this.formatOnTypeDisposable) {
-			this.formatOnTypeDisposable.dispose();
-			this.formatOnTypeDisposable = null;
-		}
-		
 		// CRITICAL: Call super.onUnloadFile() BEFORE disposing editor
 		// super.onUnloadFile() will call getViewData() to save the file
 		// The editor must still exist at that point
@@ -482,10 +707,52 @@ export class MonacoPrettierView extends TextFileView {
 		
 		console.log('MonacoView.onUnloadFile: super.onUnloadFile() complete, now disposing editor');
 		
+		this.problemsTracking?.dispose();
+		this.problemsTracking = null;
+
 		// NOW it's safe to dispose the editor after the save
 		if (this.editor) {
+			const model = this.editor.getModel();
 			this.editor.dispose();
 			this.editor = null;
+			if (model) {
+				this.releaseModel(model);
+			}
+		}
+	}
+
+	async onRename(file: TFile): Promise<void> {
+		await super.onRename(file);
+
+		// Move the content to a model under the new path so URI-based features follow the file
+		const oldModel = this.editor?.getModel();
+		if (!this.editor || !oldModel || oldModel.uri.toString() === vaultPathToUri(file.path).toString()) return;
+
+		const newModel = this.acquireModel(file);
+		if (newModel.getValue() !== oldModel.getValue()) {
+			newModel.setValue(oldModel.getValue());
+		}
+		this.editor.setModel(newModel);
+		this.releaseModel(oldModel);
+	}
+
+	/**
+	 * Get the model for a vault file, sharing it with other views of the same file
+	 */
+	private acquireModel(file: TFile): monaco.editor.ITextModel {
+		const uri = vaultPathToUri(file.path);
+		return monaco.editor.getModel(uri)
+			?? monaco.editor.createModel("", this.getLanguageFromExtension(file.extension), uri);
+	}
+
+	/**
+	 * Dispose a model once no editor shows it anymore
+	 * (models synced into the vault TypeScript project stay alive)
+	 */
+	private releaseModel(model: monaco.editor.ITextModel): void {
+		if (model.isDisposed() || this.plugin.vaultTypeScriptSync.isSynced(model)) return;
+		if (!monaco.editor.getEditors().some((editor) => editor.getModel() === model)) {
+			model.dispose();
 		}
 	}
 
@@ -0,0 +1,142 @@
+import { Notice } from "obsidian";
+import type { Plugin } from "obsidian";
+import * as monaco from "monaco-editor";
+
+// Worker bundles emitted by esbuild.config.mjs into the plugin's workers/ folder
+const WORKER_FILES = ["editor", "ts", "json", "css", "html"];
+
+// Monaco worker labels -> worker bundle
+const LABEL_WORKERS: Record<string, string> = {
+	typescript: "ts",
+	javascript: "ts",
+	json: "json",
+	css: "css",
+	scss: "css",
+	less: "css",
+	html: "html",
+	handlebars: "html",
+	razor: "html",
+};
+
+// Language service defaults per worker bundle, turned off when the bundle is missing
+const BUNDLE_SERVICES: Record<string, { label: string; defaults: () => { setModeConfiguration(configuration: object): void }[] }> = {
+	ts: {
+		label: "TypeScript/JavaScript",
+		defaults: () => [monaco.languages.typescript.typescriptDefaults, monaco.languages.typescript.javascriptDefaults],
+	},
+	json: {
+		label: "JSON",
+		defaults: () => [monaco.languages.json.jsonDefaults],
+	},
+	css: {
+		label: "CSS",
+		defaults: () => [monaco.languages.css.cssDefaults, monaco.languages.css.scssDefaults, monaco.languages.css.lessDefaults],
+	},
+	html: {
+		label: "HTML",
+		defaults: () => [monaco.languages.html.htmlDefaults, monaco.languages.html.handlebarDefaults, monaco.languages.html.razorDefaults],
+	},
+};
+
+/**
+ * Runs Monaco's editor and language service workers from the plugin folder
+ * Worker bundles are read once and served as blob URLs (Obsidian cannot start
+ * workers from app:// URLs). Only the base editor worker falls back to the main
+ * thread; language services whose bundle is missing or whose worker cannot start
+ * are turned off
+ */
+export class MonacoWorkers {
+	private static urls = new Map<string, string>();
+	// Bundles whose worker failed to start, reported once each
+	private static failed = new Set<string>();
+
+	/**
+	 * Read the worker bundles and point MonacoEnvironment at them
+	 * Must run before the first editor is created
+	 */
+	static async install(plugin: Plugin): Promise<void> {
+		const adapter = plugin.app.vault.adapter;
+
+		for (const name of WORKER_FILES) {
+			const path = `${plugin.manifest.dir}/workers/${name}.worker.js`;
+			try {
+				const source = await adapter.read(path);
+				const blob = new Blob([source], { type: "text/javascript" });
+				this.urls.set(name, URL.createObjectURL(blob));
+			} catch (error) {
+				console.warn(`MonacoWorkers: could not read ${path}:`, error);
+			}
+		}
+
+		(self as any).MonacoEnvironment = {
+			getWorker: (_moduleId: string, label: string): Worker => this.createWorker(label),
+		};
+		console.log(`MonacoWorkers: loaded ${this.urls.size} of ${WORKER_FILES.length} worker bundles`);
+
+		this.disableMissingServices();
+	}
+
+	/**
+	 * Language services cannot run without their worker (Monaco rejects them on the
+	 * main thread without an error), so turn them off and say so once
+	 */
+	private static disableMissingServices(): void {
+		const missing = this.disableServices(Object.keys(BUNDLE_SERVICES).filter((name) => !this.urls.has(name)));
+		if (missing.length > 0) {
+			console.warn(`MonacoWorkers: language services turned off, worker bundles missing: ${missing.join(", ")}`);
+			new Notice(`Monaco Prettier Editor: the workers/ folder is incomplete, so ${missing.join(", ")} language features are off. Reinstall the plugin including its workers/ folder.`, 10000);
+		}
+	}
+
+	/**
+	 * Turn off the language services of worker bundles and return their labels
+	 */
+	private static disableServices(names: string[]): string[] {
+		return names.map((name) => {
+			const service = BUNDLE_SERVICES[name];
+			// An empty mode configuration registers none of the language features
+			service.defaults().forEach((defaults) => defaults.setModeConfiguration({}));
+			return service.label;
+		});
+	}
+
+	/**
+	 * Revoke the blob URLs (running workers keep their code)
+	 */
+	static uninstall(): void {
+		for (const url of this.urls.values()) {
+			URL.revokeObjectURL(url);
+		}
+		this.urls.clear();
+		this.failed.clear();
+		delete (self as any).MonacoEnvironment;
+	}
+
+	/**
+	 * Create the worker for a Monaco label
+	 * Throwing only gives a main-thread fallback for the base editor worker, so a language
+	 * service whose worker cannot start (e.g. blocked by a content security policy) is turned off
+	 */
+	private static createWorker(label: string): Worker {
+		const name = LABEL_WORKERS[label] ?? "editor";
+		const url = this.urls.get(name);
+
+		try {
+			if (!url) throw new Error(`${name}.worker.js is missing`);
+			return new Worker(url, { name: label });
+		} catch (error) {
+			if (!this.failed.has(name)) {
+				this.failed.add(name);
+				console.warn(`MonacoWorkers: could not start the ${name} worker:`, error);
+				if (url && BUNDLE_SERVICES[name]) {
+					// After Monaco has handled this request's failure
+					window.setTimeout(() => {
+						const [service] = this.disableServices([name]);
+						new Notice(`Monaco Prettier Editor: the ${service} worker could not be started (${(error as Error).message}), so ${service} language features are off.`, 10000);
+					}, 0);
+				}
+			}
+			throw error;
+		}
+	}
+}
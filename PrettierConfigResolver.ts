@@ -0,0 +1,225 @@
+import { App } from "obsidian";
+import type { Options } from "prettier";
+import { isIgnoredByPatterns, matchesAnyGlob } from "./GlobMatcher";
+import { stripJsonComments } from "./VSIXThemeLoader";
+import { dirname, joinPath, VaultFileReader } from "./VaultFileReader";
+
+/**
+ * Prettier configuration resolved for a single vault file
+ */
+export interface PrettierConfigResult {
+	// Options from the config file, with matching overrides merged in
+	options: Options;
+	configPath: string | null;
+	// Nearest config that cannot be used (e.g. .prettierrc.js or a parse error); its options are unknown
+	unusableConfig: { path: string; problem: string } | null;
+	ignored: boolean;
+	// .prettierignore that excludes the file (null when it is not ignored or only by default rules)
+	ignorePath: string | null;
+}
+
+interface PrettierConfigOverride {
+	files: string | string[];
+	excludeFiles?: string | string[];
+	options?: Options;
+}
+
+interface PrettierConfigFile {
+	options: Options;
+	overrides: PrettierConfigOverride[];
+}
+
+type FoundConfig =
+	| { path: string; config: PrettierConfigFile }
+	| { path: string; config: null; problem: string };
+
+// Supported config files, in Prettier's own lookup order (after package.json)
+const CONFIG_FILE_NAMES = [
+	".prettierrc",
+	".prettierrc.json",
+	".prettierrc.yaml",
+	".prettierrc.yml",
+];
+
+// Config files Prettier accepts but that cannot be read here (code, JSON5 and TOML)
+const UNSUPPORTED_CONFIG_FILE_NAMES = [
+	".prettierrc.json5",
+	".prettierrc.js",
+	".prettierrc.cjs",
+	".prettierrc.mjs",
+	".prettierrc.toml",
+	"prettier.config.js",
+	"prettier.config.cjs",
+	"prettier.config.mjs",
+];
+
+// Keys that are not formatting options
+const NON_OPTION_KEYS = ["overrides", "plugins", "$schema"];
+
+/**
+ * Resolves .prettierrc / package.json#prettier and .prettierignore for vault files
+ * by walking up from the file's folder, like the Prettier CLI does
+ */
+export class PrettierConfigResolver {
+	private reader: VaultFileReader;
+
+	constructor(app: App) {
+		this.reader = new VaultFileReader(app, "Prettier config");
+	}
+
+	/**
+	 * Resolve the effective config file options and ignore status for a file
+	 */
+	async resolve(filePath: string): Promise<PrettierConfigResult> {
+		const result: PrettierConfigResult = {
+			options: {},
+			configPath: null,
+			unusableConfig: null,
+			ignored: false,
+			ignorePath: null,
+		};
+
+		const config = await this.findConfig(filePath);
+		if (config && !config.config) {
+			result.unusableConfig = { path: config.path, problem: config.problem };
+		} else if (config?.config) {
+			result.configPath = config.path;
+			result.options = { ...config.config.options };
+
+			const relativePath = this.relativeTo(filePath, dirname(config.path));
+			for (const override of config.config.overrides) {
+				const files = ([] as string[]).concat(override.files ?? []);
+				const excludeFiles = ([] as string[]).concat(override.excludeFiles ?? []);
+				if (matchesAnyGlob(relativePath, files) && !matchesAnyGlob(relativePath, excludeFiles)) {
+					Object.assign(result.options, override.options);
+				}
+			}
+		}
+
+		const ignore = await this.findIgnoreFile(filePath);
+		if (ignore) {
+			const relativePath = this.relativeTo(filePath, dirname(ignore.path));
+			result.ignored = isIgnoredByPatterns(relativePath, ignore.content.split(/\r?\n/));
+			if (result.ignored) result.ignorePath = ignore.path;
+		}
+
+		// Prettier never formats dependencies
+		if (filePath.split("/").includes("node_modules")) {
+			result.ignored = true;
+		}
+
+		return result;
+	}
+
+	/**
+	 * Walk up from the file's folder to the vault root looking for a config
+	 * A config that cannot be used (unsupported, unparseable or a shared config) ends the search
+	 * with a null config and the problem, like the CLI would stop there
+	 */
+	private async findConfig(filePath: string): Promise<FoundConfig | null> {
+		let dir = dirname(filePath);
+
+		const unusable = (path: string, problem: string): FoundConfig => {
+			console.warn(`Prettier config: ${path} ${problem}`);
+			return { path, config: null, problem };
+		};
+
+		while (true) {
+			const packagePath = joinPath(dir, "package.json");
+			const packageContent = await this.reader.read(packagePath);
+			if (packageContent !== null) {
+				let prettierKey: unknown;
+				try {
+					prettierKey = JSON.parse(packageContent).prettier;
+				} catch {
+					return unusable(packagePath, "is not valid JSON");
+				}
+				if (prettierKey && typeof prettierKey === "object") {
+					return { path: packagePath, config: this.toConfigFile(prettierKey as Record<string, any>) };
+				}
+				if (typeof prettierKey === "string") {
+					return unusable(packagePath, `uses the shared config "${prettierKey}", which is not supported`);
+				}
+			}
+
+			for (const name of CONFIG_FILE_NAMES) {
+				const path = joinPath(dir, name);
+				const content = await this.reader.read(path);
+				if (content === null) continue;
+
+				const parsed = await this.parseConfig(name, content);
+				if (parsed) {
+					return { path, config: this.toConfigFile(parsed) };
+				}
+				return unusable(path, "could not be parsed");
+			}
+
+			for (const name of UNSUPPORTED_CONFIG_FILE_NAMES) {
+				const path = joinPath(dir, name);
+				if ((await this.reader.read(path)) !== null) {
+					return unusable(path, "is not supported, use .prettierrc.json instead");
+				}
+			}
+
+			if (dir === "") return null;
+			dir = dirname(dir);
+		}
+	}
+
+	/**
+	 * Find the nearest .prettierignore walking up from the file's folder
+	 */
+	private async findIgnoreFile(filePath: string): Promise<{ path: string; content: string } | null> {
+		let dir = dirname(filePath);
+
+		while (true) {
+			const path = joinPath(dir, ".prettierignore");
+			const content = await this.reader.read(path);
+			if (content !== null) return { path, content };
+
+			if (dir === "") return null;
+			dir = dirname(dir);
+		}
+	}
+
+	/**
+	 * Parse a config file; `.prettierrc` may be either JSON or YAML
+	 */
+	private async parseConfig(name: string, content: string): Promise<Record<string, any> | null> {
+		const isYaml = name.endsWith(".yaml") || name.endsWith(".yml");
+
+		if (!isYaml) {
+			try {
+				return JSON.parse(stripJsonComments(content));
+			} catch (error) {
+				if (name !== ".prettierrc") return null;
+			}
+		}
+
+		try {
+			const yaml = await import("js-yaml");
+			const parsed = yaml.load(content);
+			return parsed && typeof parsed === "object" ? (parsed as Record<string, any>) : null;
+		} catch (error) {
+			return null;
+		}
+	}
+
+	private toConfigFile(raw: Record<string, any>): PrettierConfigFile {
+		const options: Record<string, unknown> = {};
+		for (const [key, value] of Object.entries(raw)) {
+			if (!NON_OPTION_KEYS.includes(key)) {
+				options[key] = value;
+			}
+		}
+
+		return {
+			options: options as Options,
+			overrides: Array.isArray(raw.overrides) ? raw.overrides : [],
+		};
+	}
+
+	private relativeTo(path: string, dir: string): string {
+		return dir ? path.substring(dir.length + 1) : path;
+	}
+}
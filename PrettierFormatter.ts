@@ -0,0 +1,395 @@
+import * as monaco from "monaco-editor";
+import * as prettier from "prettier/standalone";
+import type { Options, Plugin } from "prettier";
+import * as babelPlugin from "prettier/plugins/babel";
+import * as estreePlugin from "prettier/plugins/estree";
+import * as typescriptPlugin from "prettier/plugins/typescript";
+import * as postcssPlugin from "prettier/plugins/postcss";
+import * as htmlPlugin from "prettier/plugins/html";
+import * as markdownPlugin from "prettier/plugins/markdown";
+import * as yamlPlugin from "prettier/plugins/yaml";
+import * as graphqlPlugin from "prettier/plugins/graphql";
+import * as glimmerPlugin from "prettier/plugins/glimmer";
+import type { MonacoPrettierSettings } from "./settings";
+import { computeMinimalEdits } from "./TextEdits";
+import { PrettierConfigResolver } from "./PrettierConfigResolver";
+import { EditorConfigResolver } from "./EditorConfigResolver";
+import { uriToVaultPath } from "./VaultUri";
+
+/**
+ * Plugins shipped with Prettier 3's standalone build
+ * (the standalone build contains no parsers by itself)
+ */
+const BUILT_IN_PLUGINS: Plugin[] = [
+	babelPlugin,
+	estreePlugin,
+	typescriptPlugin,
+	postcssPlugin,
+	htmlPlugin,
+	markdownPlugin,
+	yamlPlugin,
+	graphqlPlugin,
+	glimmerPlugin,
+];
+
+/**
+ * Optional community plugins, loaded on first use when enabled in settings
+ */
+type CommunityPlugin = "xml" | "php" | "sql";
+
+/**
+ * Prettier integration shared by every formatting entry point
+ * (format document, format with preview, format selection, ...)
+ */
+export class PrettierFormatter {
+	private static configResolver: PrettierConfigResolver | null = null;
+	private static editorConfigResolver: EditorConfigResolver | null = null;
+	private static communityPlugins = new Map<CommunityPlugin, Plugin>();
+
+	private static parserMap: Record<string, string> = {
+		ts: "typescript",
+		tsx: "typescript",
+		mts: "typescript",
+		cts: "typescript",
+		js: "babel",
+		jsx: "babel",
+		mjs: "babel",
+		cjs: "babel",
+		json: "json",
+		css: "css",
+		scss: "scss",
+		less: "less",
+		html: "html",
+		htm: "html",
+		vue: "vue",
+		md: "markdown",
+		mdx: "mdx",
+		yaml: "yaml",
+		yml: "yaml",
+		graphql: "graphql",
+		gql: "graphql",
+		hbs: "glimmer",
+		handlebars: "glimmer",
+		xml: "xml",
+		php: "php",
+		sql: "sql",
+	};
+
+	// Monaco language id -> Prettier parser, for providers that only see the model
+	// (built-in parsers only; community plugins don't all support range formatting)
+	private static languageParserMap: Record<string, string> = {
+		typescript: "typescript",
+		javascript: "babel",
+		json: "json",
+		css: "css",
+		scss: "scss",
+		less: "less",
+		html: "html",
+		markdown: "markdown",
+		yaml: "yaml",
+		graphql: "graphql",
+		handlebars: "glimmer",
+	};
+
+	// Parsers provided by community plugins
+	private static communityParsers: Record<string, CommunityPlugin> = {
+		xml: "xml",
+		php: "php",
+		sql: "sql",
+	};
+
+	/**
+	 * Set the resolver used to honor vault .prettierrc / .prettierignore files
+	 */
+	static setConfigResolver(resolver: PrettierConfigResolver | null): void {
+		this.configResolver = resolver;
+	}
+
+	/**
+	 * Set the resolver used to apply .editorconfig indentation and line endings
+	 */
+	static setEditorConfigResolver(resolver: EditorConfigResolver | null): void {
+		this.editorConfigResolver = resolver;
+	}
+
+	/**
+	 * Get the Prettier parser for a file extension, or null if unsupported
+	 */
+	static getParser(ext: string): string | null {
+		return this.parserMap[ext] || null;
+	}
+
+	/**
+	 * Get the Prettier parser for a Monaco language id, or null if unsupported
+	 */
+	static getParserForLanguage(languageId: string): string | null {
+		return this.languageParserMap[languageId] || null;
+	}
+
+	/**
+	 * Check whether a parser can be used with the current settings
+	 * (community parsers require their plugin to be enabled)
+	 */
+	static isParserAvailable(parser: string, settings: MonacoPrettierSettings): boolean {
+		const community = this.communityParsers[parser];
+		return !community || this.isCommunityPluginEnabled(community, settings);
+	}
+
+	private static isCommunityPluginEnabled(plugin: CommunityPlugin, settings: MonacoPrettierSettings): boolean {
+		switch (plugin) {
+			case "xml":
+				return settings.prettierXmlPlugin;
+			case "php":
+				return settings.prettierPhpPlugin;
+			case "sql":
+				return settings.prettierSqlPlugin;
+		}
+	}
+
+	/**
+	 * Load a community plugin (bundled, but only evaluated when first needed)
+	 */
+	private static async loadCommunityPlugin(plugin: CommunityPlugin): Promise<Plugin> {
+		const cached = this.communityPlugins.get(plugin);
+		if (cached) return cached;
+
+		let loaded: Plugin;
+		switch (plugin) {
+			case "xml":
+				loaded = (await import("@prettier/plugin-xml")).default;
+				break;
+			case "php":
+				loaded = (await import("@prettier/plugin-php")).default;
+				break;
+			case "sql":
+				loaded = (await import("prettier-plugin-sql")).default;
+				break;
+		}
+
+		this.communityPlugins.set(plugin, loaded);
+		console.log(`Prettier: loaded ${plugin} plugin`);
+		return loaded;
+	}
+
+	/**
+	 * Build Prettier options from plugin settings
+	 */
+	static getOptions(parser: string, settings: MonacoPrettierSettings): Options {
+		return {
+			parser,
+			plugins: BUILT_IN_PLUGINS,
+			tabWidth: settings.tabWidth,
+			useTabs: settings.useTabs,
+			semi: settings.semi,
+			singleQuote: settings.singleQuote,
+			trailingComma: settings.trailingComma,
+			bracketSpacing: settings.bracketSpacing,
+			arrowParens: settings.arrowParens,
+			printWidth: settings.printWidth,
+		};
+	}
+
+	/**
+	 * Resolve options for a vault file: settings, then .editorconfig, then the
+	 * nearest Prettier config file and its overrides (same precedence as the CLI)
+	 * Returns null when the file is excluded by .prettierignore or needs a disabled plugin;
+	 * throws when the nearest config cannot be used (e.g. .prettierrc.js or a parse error)
+	 */
+	static async resolveOptions(
+		filePath: string | null,
+		parser: string,
+		settings: MonacoPrettierSettings
+	): Promise<Options | null> {
+		const options = await this.resolveConfiguredOptions(filePath, parser, settings);
+		if (!options) return null;
+
+		// The config file may switch the parser, so pick the plugin last
+		const finalParser = options.parser as string;
+		const community = this.communityParsers[finalParser];
+		if (community) {
+			if (!this.isCommunityPluginEnabled(community, settings)) {
+				console.log(`Prettier: the ${community} plugin is disabled in settings`);
+				return null;
+			}
+			options.plugins = [...BUILT_IN_PLUGINS, await this.loadCommunityPlugin(community)];
+		}
+
+		return options;
+	}
+
+	private static async resolveConfiguredOptions(
+		filePath: string | null,
+		parser: string,
+		settings: MonacoPrettierSettings
+	): Promise<Options | null> {
+		const options = this.getOptions(parser, settings);
+		if (!filePath) return options;
+
+		if (this.editorConfigResolver && settings.useEditorConfig) {
+			const { properties } = await this.editorConfigResolver.resolve(filePath);
+			const indentWidth = EditorConfigResolver.getIndentWidth(properties);
+
+			if (properties.indent_style) options.useTabs = properties.indent_style === "tab";
+			if (indentWidth !== undefined) options.tabWidth = indentWidth;
+			if (properties.end_of_line) options.endOfLine = properties.end_of_line;
+		}
+
+		if (!this.configResolver || !settings.usePrettierConfigFiles) {
+			return options;
+		}
+
+		const config = await this.configResolver.resolve(filePath);
+		if (config.ignored) {
+			console.log(`Prettier: ${filePath} is ignored by ${config.ignorePath ?? "default ignore rules"}`);
+			return null;
+		}
+		// Formatting without the project's options would restyle the whole file
+		if (config.unusableConfig) {
+			throw new Error(`${config.unusableConfig.path} ${config.unusableConfig.problem}`);
+		}
+
+		return { ...options, ...config.options, plugins: options.plugins };
+	}
+
+	/**
+	 * Explain why format() returned null for a vault file, for Notices
+	 */
+	static async describeSkipped(filePath: string, settings: MonacoPrettierSettings): Promise<string> {
+		const name = filePath.substring(filePath.lastIndexOf("/") + 1);
+		const ext = filePath.substring(filePath.lastIndexOf(".") + 1);
+		const parser = this.getParser(ext);
+		if (!parser) return `Prettier has no parser for .${ext} files`;
+
+		if (this.configResolver && settings.usePrettierConfigFiles) {
+			const config = await this.configResolver.resolve(filePath);
+			if (config.ignored) {
+				return `Prettier skipped ${name} (ignored by ${config.ignorePath ?? "default ignore rules"})`;
+			}
+		}
+
+		// The config file may switch to a parser whose plugin is disabled
+		const finalParser = (await this.resolveConfiguredOptions(filePath, parser, settings))?.parser as string | undefined;
+		const community = finalParser ? this.communityParsers[finalParser] : undefined;
+		if (community && !this.isCommunityPluginEnabled(community, settings)) {
+			return `Prettier skipped ${name}: the "${finalParser}" parser needs the ${community} plugin, enable it under Prettier Formatting`;
+		}
+		return `Prettier skipped ${name}`;
+	}
+
+	/**
+	 * Format code for a vault file
+	 * Returns null when no parser is available or the file is ignored; throws on Prettier errors
+	 */
+	static async format(code: string, filePath: string, settings: MonacoPrettierSettings): Promise<string | null> {
+		const ext = filePath.substring(filePath.lastIndexOf(".") + 1);
+		const parser = this.getParser(ext);
+
+		if (!parser) {
+			console.log("No Prettier parser available for", ext);
+			return null;
+		}
+
+		const options = await this.resolveOptions(filePath, parser, settings);
+		if (!options) return null;
+
+		return prettier.format(code, options);
+	}
+
+	/**
+	 * Format code that has no vault file (e.g. a code block) by its Monaco language id
+	 * Returns null when no parser is available; throws on Prettier errors
+	 */
+	static async formatForLanguage(code: string, languageId: string, settings: MonacoPrettierSettings): Promise<string | null> {
+		const parser = this.getParserForLanguage(languageId);
+		if (!parser) return null;
+
+		const options = await this.resolveOptions(null, parser, settings);
+		if (!options) return null;
+
+		return prettier.format(code, options);
+	}
+
+	/**
+	 * Register a range formatting provider so "Format Selection" only touches
+	 * the selected code (Prettier expands the range to whole statements)
+	 */
+	static registerRangeFormattingProvider(getSettings: () => MonacoPrettierSettings): monaco.IDisposable {
+		return monaco.languages.registerDocumentRangeFormattingEditProvider(
+			Object.keys(this.languageParserMap),
+			{
+				displayName: "Prettier",
+				provideDocumentRangeFormattingEdits: async (model, range) => {
+					const parser = this.getParserForLanguage(model.getLanguageId());
+					if (!parser) return [];
+
+					try {
+						const options = await this.resolveOptions(uriToVaultPath(model.uri), parser, getSettings());
+						if (!options) return [];
+
+						const formatted = await prettier.format(model.getValue(), {
+							...options,
+							rangeStart: model.getOffsetAt(range.getStartPosition()),
+							rangeEnd: model.getOffsetAt(range.getEndPosition()),
+						});
+
+						return computeMinimalEdits(model, formatted);
+					} catch (error) {
+						console.error("Prettier range formatting error:", error);
+						return [];
+					}
+				},
+			}
+		);
+	}
+
+	/**
+	 * Register format on type: after `;`, `}` or Enter, reformat the code that was
+	 * just typed, keeping the caret where Prettier's cursorOffset puts it
+	 */
+	static registerOnTypeFormattingProvider(getSettings: () => MonacoPrettierSettings): monaco.IDisposable {
+		// The TypeScript worker has its own on-type formatter, which would compete with Prettier
+		const { typescriptDefaults, javascriptDefaults } = monaco.languages.typescript;
+		for (const defaults of [typescriptDefaults, javascriptDefaults]) {
+			defaults.setModeConfiguration({ ...defaults.modeConfiguration, onTypeFormattingEdits: false });
+		}
+
+		return monaco.languages.registerOnTypeFormattingEditProvider(
+			Object.keys(this.languageParserMap),
+			{
+				autoFormatTriggerCharacters: [";", "}", "\n"],
+				provideOnTypeFormattingEdits: async (model, position, ch, _options, token) => {
+					const parser = this.getParserForLanguage(model.getLanguageId());
+					if (!parser) return [];
+
+					try {
+						const options = await this.resolveOptions(uriToVaultPath(model.uri), parser, getSettings());
+						if (!options) return [];
+
+						const text = model.getValue();
+						const cursorOffset = model.getOffsetAt(position);
+						const result = await prettier.formatWithCursor(text, { ...options, cursorOffset });
+						if (token.isCancellationRequested || model.getValue() !== text) return [];
+
+						// Only touch the hunk around what was just typed (the cursor line or the line above)
+						const line = position.lineNumber - 1;
+						const edits = computeMinimalEdits(model, result.formatted, {
+							cursor: { offset: cursorOffset, newOffset: result.cursorOffset },
+							filter: (hunk) => hunk.oldStart <= line && hunk.oldEnd >= line,
+						});
+
+						// After Enter, leave the new (still empty) line alone so the auto-indent survives
+						if (ch === "\n") {
+							return edits.filter(
+								(edit) => edit.range.startLineNumber > position.lineNumber || edit.range.endLineNumber < position.lineNumber
+							);
+						}
+						return edits;
+					} catch (error) {
+						// Incomplete code while typing is expected to fail to parse
+						return [];
+					}
+				},
+			}
+		);
+	}
+}
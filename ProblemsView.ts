@@ -0,0 +1,353 @@
+import { debounce, DropdownComponent, ItemView, setIcon, TextComponent, WorkspaceLeaf } from "obsidian";
+import * as monaco from "monaco-editor";
+import MonacoPrettierPlugin from "./main";
+
+export const VIEW_TYPE_PROBLEMS = "monaco-prettier-problems";
+
+/**
+ * An open Monaco editor whose markers are listed in the Problems view
+ */
+export interface TrackedEditor {
+	editor: monaco.editor.IStandaloneCodeEditor;
+	// Heading of the editor's group (file path or code block)
+	getTitle(): string;
+	// Bring the editor's leaf or modal to the front
+	activate?(): void;
+}
+
+export type ProblemSeverity = "error" | "warning" | "info";
+
+export interface Problem {
+	line: number;
+	column: number;
+	endLine: number;
+	endColumn: number;
+	message: string;
+	severity: ProblemSeverity;
+	source: string;
+	code?: string;
+}
+
+/**
+ * Problems of one file or code block
+ */
+export interface ProblemGroup {
+	title: string;
+	problems: Problem[];
+	reveal(problem: Problem): void;
+}
+
+const SEVERITIES: { severity: ProblemSeverity; label: string; icon: string; color: string }[] = [
+	{ severity: "error", label: "Errors", icon: "x-circle", color: "var(--text-error)" },
+	{ severity: "warning", label: "Warnings", icon: "alert-triangle", color: "var(--text-warning)" },
+	{ severity: "info", label: "Info", icon: "info", color: "var(--text-accent)" },
+];
+
+/**
+ * Side panel listing the markers of every open code editor and code block modal
+ * (and the results of the last vault scan), grouped by file and severity, with text and source filters
+ */
+export class ProblemsView extends ItemView {
+	private static editors = new Set<TrackedEditor>();
+	private static listeners = new Set<() => void>();
+	private static markerListener: monaco.IDisposable | null = null;
+	// Results of the last vault scan, for files not open in an editor
+	private static scanGroups: ProblemGroup[] = [];
+
+	plugin: MonacoPrettierPlugin;
+	private filterText = "";
+	private filterSource = "";
+	private collapsed = new Set<string>();
+	private sourceDropdown: DropdownComponent;
+	private summaryEl: HTMLElement;
+	private listEl: HTMLElement;
+	private unsubscribe: (() => void) | null = null;
+	private scheduleRender = debounce(() => this.renderList(), 150, true);
+
+	constructor(leaf: WorkspaceLeaf, plugin: MonacoPrettierPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	/**
+	 * List an editor's markers until the returned disposable is disposed
+	 */
+	static trackEditor(entry: TrackedEditor): monaco.IDisposable {
+		this.editors.add(entry);
+		if (!this.markerListener) {
+			this.markerListener = monaco.editor.onDidChangeMarkers((uris) => {
+				const tracked = new Set([...this.editors].map(({ editor }) => editor.getModel()?.uri.toString()));
+				if (uris.some((uri) => tracked.has(uri.toString()))) this.notify();
+			});
+		}
+		const modelListener = entry.editor.onDidChangeModel(() => this.notify());
+		this.notify();
+
+		return {
+			dispose: () => {
+				if (!this.editors.delete(entry)) return;
+				modelListener.dispose();
+				if (this.editors.size === 0) {
+					this.markerListener?.dispose();
+					this.markerListener = null;
+				}
+				this.notify();
+			},
+		};
+	}
+
+	/**
+	 * Call `listener` whenever the problems of the open editors change
+	 */
+	static onDidChange(listener: () => void): () => void {
+		this.listeners.add(listener);
+		return () => this.listeners.delete(listener);
+	}
+
+	static hasOpenEditors(): boolean {
+		return this.editors.size > 0;
+	}
+
+	/**
+	 * Replace the listed vault scan results (an empty list clears them)
+	 */
+	static setScanResults(groups: ProblemGroup[]): void {
+		this.scanGroups = groups;
+		this.notify();
+	}
+
+	/**
+	 * Problems of the open editors, then the vault scan results of the other files
+	 */
+	static getGroups(): ProblemGroup[] {
+		const editorGroups = this.getEditorGroups();
+		const open = new Set(editorGroups.map((group) => group.title));
+		return [...editorGroups, ...this.scanGroups.filter((group) => !open.has(group.title))];
+	}
+
+	/**
+	 * Problems of every open editor, in the order the editors were opened
+	 */
+	private static getEditorGroups(): ProblemGroup[] {
+		const groups: ProblemGroup[] = [];
+		for (const entry of this.editors) {
+			const model = entry.editor.getModel();
+			if (!model || model.isDisposed()) continue;
+
+			const problems = monaco.editor.getModelMarkers({ resource: model.uri })
+				.filter((marker) => marker.severity !== monaco.MarkerSeverity.Hint)
+				.map(toProblem)
+				.sort((a, b) => a.line - b.line || a.column - b.column);
+
+			groups.push({
+				title: entry.getTitle(),
+				problems,
+				reveal: (problem) => {
+					entry.activate?.();
+					const range = new monaco.Range(problem.line, problem.column, problem.endLine, problem.endColumn);
+					entry.editor.setSelection(range);
+					entry.editor.revealRangeInCenterIfOutsideViewport(range);
+					entry.editor.focus();
+				},
+			});
+		}
+		return groups;
+	}
+
+	/**
+	 * Problem counts of the open editors
+	 */
+	static countProblems(): Record<ProblemSeverity, number> {
+		const counts: Record<ProblemSeverity, number> = { error: 0, warning: 0, info: 0 };
+		for (const group of this.getEditorGroups()) {
+			for (const problem of group.problems) counts[problem.severity]++;
+		}
+		return counts;
+	}
+
+	/**
+	 * Show the Problems view in the right sidebar, creating it if needed
+	 */
+	static async open(plugin: MonacoPrettierPlugin): Promise<void> {
+		const workspace = plugin.app.workspace;
+		let leaf = workspace.getLeavesOfType(VIEW_TYPE_PROBLEMS)[0];
+		if (!leaf) {
+			leaf = workspace.getRightLeaf(false) ?? workspace.getLeaf("split");
+			await leaf.setViewState({ type: VIEW_TYPE_PROBLEMS, active: true });
+		}
+		await workspace.revealLeaf(leaf);
+	}
+
+	private static notify(): void {
+		this.listeners.forEach((listener) => listener());
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_PROBLEMS;
+	}
+
+	getDisplayText(): string {
+		return "Problems";
+	}
+
+	getIcon(): string {
+		return "alert-triangle";
+	}
+
+	async onOpen(): Promise<void> {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.style.display = "flex";
+		contentEl.style.flexDirection = "column";
+		contentEl.style.gap = "6px";
+
+		const filterRow = contentEl.createDiv();
+		filterRow.style.display = "flex";
+		filterRow.style.gap = "6px";
+
+		const filterInput = new TextComponent(filterRow)
+			.setPlaceholder("Filter problems")
+			.onChange((value) => {
+				this.filterText = value.trim().toLowerCase();
+				this.renderList();
+			});
+		filterInput.inputEl.style.flex = "1";
+		filterInput.inputEl.style.minWidth = "0";
+
+		this.sourceDropdown = new DropdownComponent(filterRow).onChange((value) => {
+			this.filterSource = value;
+			this.renderList();
+		});
+
+		this.summaryEl = contentEl.createDiv({ cls: "setting-item-description" });
+		this.listEl = contentEl.createDiv();
+		this.listEl.style.overflowY = "auto";
+		this.listEl.style.fontSize = "var(--font-ui-small)";
+
+		this.addAction("x", "Clear vault scan results", () => ProblemsView.setScanResults([]));
+
+		this.unsubscribe = ProblemsView.onDidChange(() => this.scheduleRender());
+		this.renderList();
+	}
+
+	async onClose(): Promise<void> {
+		this.unsubscribe?.();
+		this.unsubscribe = null;
+		this.contentEl.empty();
+	}
+
+	private renderList(): void {
+		if (!this.listEl) return;
+		const groups = ProblemsView.getGroups();
+		this.updateSourceOptions(groups);
+		this.listEl.empty();
+
+		let shown = 0;
+		let files = 0;
+		for (const group of groups) {
+			const problems = group.problems.filter((problem) => this.matchesFilter(problem, group.title));
+			if (problems.length === 0) continue;
+			shown += problems.length;
+			files++;
+			this.renderGroup(group, problems);
+		}
+
+		const total = groups.reduce((count, group) => count + group.problems.length, 0);
+		const filtered = shown === total ? "" : ` (${total - shown} hidden by the filter)`;
+		this.summaryEl.setText(groups.length > 0
+			? `${shown} problem(s) in ${files} file(s)${filtered}`
+			: "No code editors are open");
+	}
+
+	private renderGroup(group: ProblemGroup, problems: Problem[]): void {
+		const groupEl = this.listEl.createDiv();
+		groupEl.style.marginBottom = "8px";
+
+		const collapsed = this.collapsed.has(group.title);
+		const headerEl = groupEl.createDiv();
+		headerEl.style.display = "flex";
+		headerEl.style.alignItems = "center";
+		headerEl.style.gap = "4px";
+		headerEl.style.cursor = "pointer";
+		headerEl.style.fontWeight = "var(--font-semibold)";
+		setIcon(headerEl.createSpan(), collapsed ? "chevron-right" : "chevron-down");
+		const titleEl = headerEl.createSpan({ text: group.title });
+		titleEl.style.overflow = "hidden";
+		titleEl.style.textOverflow = "ellipsis";
+		titleEl.style.whiteSpace = "nowrap";
+		headerEl.createSpan({ text: String(problems.length), cls: "setting-item-description" });
+		headerEl.addEventListener("click", () => {
+			if (collapsed) this.collapsed.delete(group.title);
+			else this.collapsed.add(group.title);
+			this.renderList();
+		});
+		if (collapsed) return;
+
+		for (const { severity, label, icon, color } of SEVERITIES) {
+			const ofSeverity = problems.filter((problem) => problem.severity === severity);
+			if (ofSeverity.length === 0) continue;
+
+			const severityEl = groupEl.createDiv({ text: `${label} (${ofSeverity.length})`, cls: "setting-item-description" });
+			severityEl.style.margin = "4px 0 2px 20px";
+
+			for (const problem of ofSeverity) {
+				const itemEl = groupEl.createDiv();
+				itemEl.style.display = "flex";
+				itemEl.style.gap = "6px";
+				itemEl.style.padding = "2px 4px 2px 28px";
+				itemEl.style.cursor = "pointer";
+				itemEl.style.borderRadius = "var(--radius-s)";
+				itemEl.addEventListener("mouseenter", () => (itemEl.style.background = "var(--background-modifier-hover)"));
+				itemEl.addEventListener("mouseleave", () => (itemEl.style.background = ""));
+				itemEl.addEventListener("click", () => group.reveal(problem));
+
+				const iconEl = itemEl.createSpan();
+				iconEl.style.color = color;
+				iconEl.style.flexShrink = "0";
+				setIcon(iconEl, icon);
+
+				const textEl = itemEl.createDiv();
+				textEl.style.minWidth = "0";
+				textEl.createDiv({ text: problem.message });
+				const source = problem.code ? `${problem.source}(${problem.code})` : problem.source;
+				textEl.createDiv({ text: `${source} [${problem.line}, ${problem.column}]`, cls: "setting-item-description" });
+			}
+		}
+	}
+
+	private matchesFilter(problem: Problem, title: string): boolean {
+		if (this.filterSource && problem.source !== this.filterSource) return false;
+		if (!this.filterText) return true;
+		return [problem.message, problem.source, problem.code ?? "", title]
+			.some((text) => text.toLowerCase().includes(this.filterText));
+	}
+
+	/**
+	 * Offer the sources of the current problems, keeping the selection
+	 */
+	private updateSourceOptions(groups: ProblemGroup[]): void {
+		const sources = new Set<string>(groups.flatMap((group) => group.problems.map((problem) => problem.source)));
+		if (this.filterSource) sources.add(this.filterSource);
+
+		const selectEl = this.sourceDropdown.selectEl;
+		selectEl.empty();
+		this.sourceDropdown.addOption("", "All sources");
+		[...sources].sort().forEach((source) => this.sourceDropdown.addOption(source, source));
+		this.sourceDropdown.setValue(this.filterSource);
+	}
+}
+
+function toProblem(marker: monaco.editor.IMarker): Problem {
+	return {
+		line: marker.startLineNumber,
+		column: marker.startColumn,
+		endLine: marker.endLineNumber,
+		endColumn: marker.endColumn,
+		message: marker.message,
+		severity: marker.severity === monaco.MarkerSeverity.Error
+			? "error"
+			: marker.severity === monaco.MarkerSeverity.Warning ? "warning" : "info",
+		source: marker.source ?? marker.owner,
+		code: typeof marker.code === "string" ? marker.code : marker.code?.value,
+	};
+}
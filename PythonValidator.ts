@@ -0,0 +1,402 @@
+import type { ValidationError } from "./ValidationManager";
+
+/**
+ * Offline Python syntax checker built on a tokenizer that follows Python's lexical rules:
+ * strings (including triple-quoted and prefixed) and brackets are tracked across lines,
+ * physical lines are joined into logical lines, and indentation is checked the way
+ * CPython does (IndentationError / TabError), plus consistency with the file's own indent unit
+ */
+
+type TokenType = "name" | "number" | "string" | "op";
+
+interface Token {
+	type: TokenType;
+	value: string;
+	// 1-based; end column is exclusive
+	line: number;
+	column: number;
+	endLine: number;
+	endColumn: number;
+}
+
+interface LogicalLine {
+	tokens: Token[];
+	// Leading whitespace of the first physical line
+	indent: string;
+	line: number;
+}
+
+const COMPOUND_KEYWORDS = new Set(["if", "elif", "else", "for", "while", "def", "class", "with", "try", "except", "finally"]);
+// Keywords that must be followed directly by the colon
+const BARE_KEYWORDS = new Set(["else", "try", "finally"]);
+
+const OPENING_BRACKETS: Record<string, string> = { "(": ")", "[": "]", "{": "}" };
+const CLOSING_BRACKETS: Record<string, string> = { ")": "(", "]": "[", "}": "{" };
+const BRACKET_NAMES: Record<string, string> = { "(": "parenthesis", ")": "parenthesis", "[": "bracket", "]": "bracket", "{": "brace", "}": "brace" };
+
+// Longest operators first
+const OPERATORS = [
+	"**=", "//=", ">>=", "<<=", "...",
+	"->", ":=", "**", "//", ">>", "<<", "<=", ">=", "==", "!=", "+=", "-=", "*=", "/=", "%=", "&=", "|=", "^=", "@=",
+	"+", "-", "*", "/", "%", "@", "&", "|", "^", "~", "<", ">", "(", ")", "[", "]", "{", "}", ",", ":", ";", ".", "=",
+];
+
+const STRING_START = /^(?:[rRbBuUfF]|[rR][bBfF]|[bBfF][rR])?('''|"""|'|")/;
+const NAME = /^[\p{L}\p{Nl}_][\p{L}\p{Nl}\p{Mn}\p{Mc}\p{Nd}\p{Pc}]*/u;
+const NUMBER = /^(?:0[xX][\da-fA-F_]+|0[oO][0-7_]+|0[bB][01_]+|(?:\d[\d_]*(?:\.[\d_]*)?|\.\d[\d_]*)(?:[eE][+-]?\d[\d_]*)?[jJ]?)/;
+
+export class PythonValidator {
+	/**
+	 * Report syntax and indentation errors in Python source
+	 */
+	static validate(code: string): ValidationError[] {
+		const errors: ValidationError[] = [];
+		const lines = tokenize(code, errors);
+
+		checkIndentation(lines, errors);
+		for (const line of lines) {
+			checkStatement(line, errors);
+		}
+
+		return errors.sort((a, b) => a.line - b.line || a.column - b.column);
+	}
+}
+
+function pushError(
+	errors: ValidationError[],
+	line: number,
+	column: number,
+	endColumn: number,
+	message: string,
+	severity: ValidationError["severity"] = "error",
+	endLine = line
+): void {
+	errors.push({ line, column, endLine, endColumn: Math.max(endColumn, column + 1), message, severity });
+}
+
+/**
+ * Split source into logical lines of tokens; lexical errors are reported as they are found
+ */
+function tokenize(code: string, errors: ValidationError[]): LogicalLine[] {
+	const lines = code.split(/\r?\n/);
+	const result: LogicalLine[] = [];
+	const openBrackets: Token[] = [];
+	let logical: LogicalLine | null = null;
+	let continuation = false;
+
+	for (let lineIndex = 0; lineIndex < lines.length; lineIndex++) {
+		let text = lines[lineIndex];
+		let pos = 0;
+
+		if (!logical) {
+			const indent = text.match(/^[ \t\f]*/)![0];
+			const rest = text.substring(indent.length);
+			if (rest === "" || rest.startsWith("#")) continue;
+			logical = { tokens: [], indent, line: lineIndex + 1 };
+			pos = indent.length;
+		}
+		continuation = false;
+
+		while (pos < text.length) {
+			const char = text[pos];
+			const lineNumber = lineIndex + 1;
+			const column = pos + 1;
+
+			if (char === " " || char === "\t" || char === "\f") {
+				pos++;
+				continue;
+			}
+			if (char === "#") break;
+
+			if (char === "\\") {
+				if (pos === text.length - 1) {
+					continuation = true;
+					pos++;
+					break;
+				}
+				pushError(errors, lineNumber, column, column + 1, "unexpected character after line continuation character");
+				pos++;
+				continue;
+			}
+
+			const rest = text.substring(pos);
+
+			const stringMatch = rest.match(STRING_START);
+			if (stringMatch) {
+				const quote = stringMatch[1];
+				const end = findStringEnd(lines, lineIndex, pos + stringMatch[0].length, quote);
+				if (!end) {
+					if (quote.length === 3) {
+						pushError(errors, lineNumber, column, column + stringMatch[0].length,
+							`unterminated triple-quoted string literal (detected at line ${lines.length})`);
+						// Everything after the opening quotes is part of the string
+						lineIndex = lines.length;
+						logical.tokens.push({ type: "string", value: rest, line: lineNumber, column, endLine: lines.length, endColumn: 1 });
+						break;
+					}
+					pushError(errors, lineNumber, column, text.length + 1, `unterminated string literal (detected at line ${lineNumber})`);
+					logical.tokens.push({ type: "string", value: rest, line: lineNumber, column, endLine: lineNumber, endColumn: text.length + 1 });
+					pos = text.length;
+					continue;
+				}
+
+				logical.tokens.push({ type: "string", value: stringMatch[0], line: lineNumber, column, endLine: end.line + 1, endColumn: end.pos + 1 });
+				lineIndex = end.line;
+				text = lines[lineIndex];
+				pos = end.pos;
+				continue;
+			}
+
+			const nameMatch = rest.match(NAME);
+			if (nameMatch) {
+				logical.tokens.push({ type: "name", value: nameMatch[0], line: lineNumber, column, endLine: lineNumber, endColumn: column + nameMatch[0].length });
+				pos += nameMatch[0].length;
+				continue;
+			}
+
+			const numberMatch = /^\.?\d/.test(rest) ? rest.match(NUMBER) : null;
+			if (numberMatch) {
+				const number = numberMatch[0];
+				const endColumn = column + number.length;
+				if (/^0[\d_]*[1-9]/.test(number) && /^[\d_]+$/.test(number)) {
+					pushError(errors, lineNumber, column, endColumn, "leading zeros in decimal integer literals are not permitted; use an 0o prefix for octal integers");
+				} else if (/^[\p{L}_]/u.test(rest.substring(number.length))) {
+					pushError(errors, lineNumber, column, endColumn + 1, "invalid decimal literal");
+				}
+				logical.tokens.push({ type: "number", value: number, line: lineNumber, column, endLine: lineNumber, endColumn });
+				pos += number.length;
+				continue;
+			}
+
+			const operator = OPERATORS.find((candidate) => rest.startsWith(candidate));
+			if (operator) {
+				const token: Token = { type: "op", value: operator, line: lineNumber, column, endLine: lineNumber, endColumn: column + operator.length };
+				logical.tokens.push(token);
+				pos += operator.length;
+
+				if (OPENING_BRACKETS[operator]) {
+					openBrackets.push(token);
+				} else if (CLOSING_BRACKETS[operator]) {
+					const open = openBrackets.pop();
+					if (!open) {
+						pushError(errors, lineNumber, column, column + 1, `unmatched '${operator}'`);
+					} else if (open.value !== CLOSING_BRACKETS[operator]) {
+						const where = open.line === lineNumber ? "" : ` on line ${open.line}`;
+						pushError(errors, lineNumber, column, column + 1,
+							`closing ${BRACKET_NAMES[operator]} '${operator}' does not match opening ${BRACKET_NAMES[open.value]} '${open.value}'${where}`);
+					}
+				}
+				continue;
+			}
+
+			const codePoint = rest.codePointAt(0)!;
+			const character = String.fromCodePoint(codePoint);
+			const unicode = codePoint > 127 ? ` (U+${codePoint.toString(16).toUpperCase().padStart(4, "0")})` : "";
+			pushError(errors, lineNumber, column, column + character.length, `invalid character '${character}'${unicode}`);
+			pos += character.length;
+		}
+
+		// A logical line ends at a line break outside brackets and without a trailing backslash
+		if (logical && openBrackets.length === 0 && !continuation) {
+			result.push(logical);
+			logical = null;
+		}
+	}
+
+	if (logical) result.push(logical);
+
+	for (const open of openBrackets) {
+		pushError(errors, open.line, open.column, open.endColumn, `'${open.value}' was never closed`);
+	}
+	if (continuation) {
+		pushError(errors, lines.length, 1, 2, "unexpected EOF while parsing");
+	}
+
+	return result;
+}
+
+/**
+ * Find the closing quote of a string starting at (lineIndex, pos), honoring escapes
+ * Single-quoted strings only continue on the next line after a trailing backslash
+ */
+function findStringEnd(lines: string[], lineIndex: number, pos: number, quote: string): { line: number; pos: number } | null {
+	for (let index = lineIndex; index < lines.length; index++) {
+		const text = lines[index];
+		let i = index === lineIndex ? pos : 0;
+
+		while (i < text.length) {
+			if (text[i] === "\\") {
+				i += 2;
+				continue;
+			}
+			if (text.startsWith(quote, i)) {
+				return { line: index, pos: i + quote.length };
+			}
+			i++;
+		}
+
+		// An escaped line break lets a single-quoted string continue; i overshoots the line then
+		if (quote.length === 1 && i <= text.length) return null;
+	}
+	return null;
+}
+
+/**
+ * Indentation width with tabs to the next multiple of 8, and with tabs as 1 column;
+ * both must order lines the same way (CPython's TabError check)
+ */
+function measureIndent(indent: string): { width: number; alternate: number } {
+	let width = 0;
+	let alternate = 0;
+	for (const char of indent) {
+		if (char === "\t") {
+			width = Math.floor(width / 8) * 8 + 8;
+			alternate++;
+		} else if (char === "\f") {
+			width = 0;
+			alternate = 0;
+		} else {
+			width++;
+			alternate++;
+		}
+	}
+	return { width, alternate };
+}
+
+function describeIndent(indent: string): string {
+	if (/^\t+$/.test(indent)) return indent.length === 1 ? "1 tab" : `${indent.length} tabs`;
+	if (/^ +$/.test(indent)) return indent.length === 1 ? "1 space" : `${indent.length} spaces`;
+	return "mixed tabs and spaces";
+}
+
+/**
+ * The compound statement keyword of a line (skipping `async`), or null
+ */
+function compoundKeyword(line: LogicalLine): Token | null {
+	const [first, second] = line.tokens;
+	const keyword = first?.value === "async" && second && ["def", "for", "with"].includes(second.value) ? second : first;
+	return keyword?.type === "name" && COMPOUND_KEYWORDS.has(keyword.value) ? keyword : null;
+}
+
+function hasHeaderColon(tokens: Token[]): boolean {
+	let depth = 0;
+	for (const token of tokens) {
+		if (token.type !== "op") continue;
+		if (OPENING_BRACKETS[token.value]) depth++;
+		else if (CLOSING_BRACKETS[token.value]) depth = Math.max(depth - 1, 0);
+		else if (token.value === ":" && depth === 0) return true;
+	}
+	return false;
+}
+
+/**
+ * Whether the next line must be indented; a header missing its colon counts,
+ * so the body below it is not also reported as an unexpected indent
+ */
+function opensBlock(line: LogicalLine): boolean {
+	const last = line.tokens[line.tokens.length - 1];
+	if (last?.type === "op" && last.value === ":") return true;
+	return compoundKeyword(line) !== null && !hasHeaderColon(line.tokens);
+}
+
+function blockDescription(line: LogicalLine): string {
+	const [first, second] = line.tokens;
+	const keyword = first?.value === "async" && second ? second.value : first?.value;
+	if (keyword === "def") return `function definition on line ${line.line}`;
+	if (keyword === "class") return `class definition on line ${line.line}`;
+	if (keyword && (COMPOUND_KEYWORDS.has(keyword) || keyword === "match" || keyword === "case")) {
+		return `'${keyword}' statement on line ${line.line}`;
+	}
+	return `line ${line.line}`;
+}
+
+function checkIndentation(lines: LogicalLine[], errors: ValidationError[]): void {
+	const stack: { width: number; alternate: number; indent: string }[] = [{ width: 0, alternate: 0, indent: "" }];
+	// First indentation step in the file (e.g. 4 spaces or a tab)
+	let unit: string | null = null;
+	let previous: LogicalLine | null = null;
+
+	for (const line of lines) {
+		const { width, alternate } = measureIndent(line.indent);
+		const top = stack[stack.length - 1];
+		const indentEnd = line.indent.length + 1;
+		const expectsBlock = previous !== null && opensBlock(previous);
+
+		if (width > top.width) {
+			if (!expectsBlock) {
+				pushError(errors, line.line, 1, indentEnd, "unexpected indent");
+			} else if (alternate <= top.alternate) {
+				pushError(errors, line.line, 1, indentEnd, "inconsistent use of tabs and spaces in indentation");
+			} else if (line.indent.startsWith(top.indent)) {
+				const step = line.indent.substring(top.indent.length);
+				if (unit === null) {
+					unit = step;
+				} else if (step !== unit) {
+					pushError(errors, line.line, top.indent.length + 1, indentEnd,
+						`Indentation of ${describeIndent(step)} does not match the file's indent unit of ${describeIndent(unit)}`, "warning");
+				}
+			}
+			stack.push({ width, alternate, indent: line.indent });
+		} else {
+			if (expectsBlock) {
+				pushError(errors, line.line, 1, Math.max(indentEnd, 2), `expected an indented block after ${blockDescription(previous!)}`);
+			}
+			while (stack.length > 1 && stack[stack.length - 1].width > width) stack.pop();
+
+			const current = stack[stack.length - 1];
+			if (current.width !== width) {
+				pushError(errors, line.line, 1, indentEnd, "unindent does not match any outer indentation level");
+				stack.push({ width, alternate, indent: line.indent });
+			} else if (current.alternate !== alternate) {
+				pushError(errors, line.line, 1, indentEnd, "inconsistent use of tabs and spaces in indentation");
+			}
+		}
+
+		previous = line;
+	}
+
+	// A header missing its colon already has an error of its own
+	if (previous && opensBlock(previous) && hasHeaderColon(previous.tokens)) {
+		const last = previous.tokens[previous.tokens.length - 1];
+		pushError(errors, last.line, last.column, last.endColumn, `expected an indented block after ${blockDescription(previous)}`);
+	}
+}
+
+/**
+ * Statement-level checks: colons after compound statement headers and Python 2 print
+ */
+function checkStatement(line: LogicalLine, errors: ValidationError[]): void {
+	const tokens = line.tokens;
+	if (tokens.length === 0) return;
+
+	const keyword = compoundKeyword(line);
+
+	if (keyword) {
+		const next = tokens[tokens.indexOf(keyword) + 1];
+
+		if (BARE_KEYWORDS.has(keyword.value) && !(next?.type === "op" && next.value === ":")) {
+			const at = next ?? keyword;
+			pushError(errors, at.line, next ? at.column : at.endColumn, at.endColumn + (next ? 0 : 1), "expected ':'");
+			return;
+		}
+
+		if ((keyword.value === "def" || keyword.value === "class") && next?.type !== "name") {
+			const at = next ?? keyword;
+			pushError(errors, at.line, at.column, at.endColumn, "invalid syntax");
+			return;
+		}
+
+		if (!hasHeaderColon(tokens)) {
+			const last = tokens[tokens.length - 1];
+			pushError(errors, last.endLine, last.endColumn, last.endColumn + 1, "expected ':'");
+		}
+		return;
+	}
+
+	const [first, next] = tokens;
+	if (first.type === "name" && first.value === "print" && next) {
+		if (next.type === "string" || next.type === "number" || (next.type === "name" && !["in", "is", "and", "or", "if", "not"].includes(next.value))) {
+			pushError(errors, first.line, first.column, first.endColumn, "Missing parentheses in call to 'print'. Did you mean print(...)?");
+		}
+	}
+}
@@ -0,0 +1,117 @@
+import { ButtonComponent, Modal, TextComponent } from "obsidian";
+import MonacoPrettierPlugin from "./main";
+import { RenameFilePlan, VaultRename } from "./VaultRename";
+
+/**
+ * Modal asking for a new symbol name and previewing every file and line the rename changes
+ */
+export class RenamePreviewModal extends Modal {
+	private input: TextComponent;
+	private previewEl: HTMLElement;
+	private renameButton: ButtonComponent;
+
+	constructor(
+		private plugin: MonacoPrettierPlugin,
+		private currentName: string,
+		private plans: RenameFilePlan[],
+		private onRename: (newName: string) => void
+	) {
+		super(plugin.app);
+	}
+
+	onOpen() {
+		super.onOpen();
+
+		this.titleEl.setText(`Rename "${this.currentName}"`);
+
+		this.modalEl.setCssProps({ "--dialog-width": "70vw" });
+
+		const { contentEl } = this;
+		contentEl.style.display = "flex";
+		contentEl.style.flexDirection = "column";
+		contentEl.style.gap = "8px";
+
+		this.input = new TextComponent(contentEl).setValue(this.currentName).onChange(() => this.renderPreview());
+		this.input.inputEl.style.width = "100%";
+		this.input.inputEl.addEventListener("keydown", (event) => {
+			if (event.key === "Enter") {
+				event.preventDefault();
+				this.submit();
+			}
+		});
+
+		this.previewEl = contentEl.createDiv();
+		this.previewEl.style.maxHeight = "50vh";
+		this.previewEl.style.overflowY = "auto";
+		this.previewEl.style.fontFamily = "var(--font-monospace)";
+		this.previewEl.style.fontSize = "var(--font-ui-smaller)";
+
+		// Button row
+		const buttonRow = contentEl.createDiv();
+		buttonRow.style.display = "flex";
+		buttonRow.style.justifyContent = "flex-end";
+		buttonRow.style.gap = "8px";
+
+		new ButtonComponent(buttonRow).setButtonText("Cancel").onClick(() => this.close());
+
+		this.renameButton = new ButtonComponent(buttonRow)
+			.setCta()
+			.setButtonText("Rename")
+			.onClick(() => this.submit());
+
+		this.renderPreview();
+		this.input.inputEl.focus();
+		this.input.inputEl.select();
+	}
+
+	private getNewName(): string {
+		return this.input.getValue().trim();
+	}
+
+	private renderPreview() {
+		this.previewEl.empty();
+
+		const newName = this.getNewName();
+		const valid = newName !== "" && newName !== this.currentName;
+		this.renameButton.setDisabled(!valid);
+
+		const occurrences = this.plans.reduce((count, plan) => count + plan.occurrences.length, 0);
+		this.previewEl.createDiv({
+			text: `${occurrences} occurrence(s) in ${this.plans.length} file(s)`,
+			cls: "setting-item-description",
+		});
+
+		for (const plan of this.plans) {
+			const fileEl = this.previewEl.createDiv();
+			fileEl.style.marginTop = "8px";
+			fileEl.createEl("strong", { text: plan.file.path });
+
+			for (const line of VaultRename.getPreviewLines(plan, valid ? newName : this.currentName)) {
+				const lineEl = fileEl.createDiv();
+				lineEl.style.whiteSpace = "pre";
+				lineEl.style.overflow = "hidden";
+				lineEl.style.textOverflow = "ellipsis";
+
+				const removed = lineEl.createDiv({ text: `${line.lineNumber}: − ${line.before.trim()}` });
+				removed.style.color = "var(--text-error)";
+				if (valid) {
+					const added = lineEl.createDiv({ text: `${line.lineNumber}: + ${line.after.trim()}` });
+					added.style.color = "var(--text-success)";
+				}
+			}
+		}
+	}
+
+	private submit() {
+		const newName = this.getNewName();
+		if (newName === "" || newName === this.currentName) return;
+
+		this.close();
+		this.onRename(newName);
+	}
+
+	onClose() {
+		super.onClose();
+		this.contentEl.empty();
+	}
+}
@@ -1,8 +1,9 @@
 import { App, PluginSettingTab, Setting, Notice, Modal, requestUrl } from "obsidian";
 import MonacoPrettierPlugin from "./main";
 import { BUILT_IN_THEMES, THEME_PRESETS } from "./ThemeManager";
-import type { TreeSitterLanguageParser } from "./settings";
+import type { FormatterBinding, FormatterKind, JsonSchemaMapping, SqlDialect, TreeSitterLanguageParser } from "./settings";
 import { DEFAULT_SETTINGS } from "./settings";
+import { FormatterRegistry } from "./FormatterRegistry";
 
 type SettingsTabType = 'general' | 'editor' | 'formatting' | 'theme';
 
@@ -110,7 +111,7 @@ export class MonacoPrettierSettingTab extends PluginSettingTab {
 
 		new Setting(containerEl)
 			.setName("Lightweight syntax validation")
-			.setDesc("Enable syntax error detection for JSON, YAML, Python, CSS (lightweight, no language server)")
+			.setDesc("Enable syntax error detection for JSON, YAML, Python, CSS, TOML, INI and XML (lightweight, no language server)")
 			.addToggle((toggle) =>
 				toggle
 					.setValue(this.plugin.settings.lightweightValidation)
@@ -149,6 +150,179 @@ export class MonacoPrettierSettingTab extends PluginSettingTab {
 						await this.plugin.saveSettings();
 					})
 			);
+
+		new Setting(containerEl)
+			.setName("XML/HTML tag editing")
+			.setDesc("Insert closing tags when typing '>' or '</', and rename start and end tags together")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.xmlTagEditing)
+					.onChange(async (value) => {
+						this.plugin.settings.xmlTagEditing = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("XML outline")
+			.setDesc("List the elements of XML files in Go to Symbol (Ctrl+Shift+O) and the breadcrumbs")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.xmlOutline)
+					.onChange(async (value) => {
+						this.plugin.settings.xmlOutline = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("SQL dialect")
+			.setDesc("Dialect for SQL validation and completion. A \"-- dialect: mysql\" comment at the top of a file or code block overrides it.")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("postgresql", "PostgreSQL")
+					.addOption("mysql", "MySQL")
+					.addOption("sqlite", "SQLite")
+					.addOption("transactsql", "T-SQL (SQL Server)")
+					.addOption("bigquery", "BigQuery")
+					.setValue(this.plugin.settings.sqlDialect)
+					.onChange(async (value: SqlDialect) => {
+						this.plugin.settings.sqlDialect = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Shell script linting")
+			.setDesc("Warn about unquoted variables, cd without || exit, useless cat, test bracket mistakes, missing shebangs and unreachable code, with quick fixes. Requires the Bash tree-sitter parser.")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.shellLinting)
+					.onChange(async (value) => {
+						this.plugin.settings.shellLinting = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Vault scan folders")
+			.setDesc("Comma-separated globs of the files the \"Validate vault files\" commands check, e.g. \"Projects/**\". Empty scans every code file.")
+			.addText((text) =>
+				text
+					.setPlaceholder("Projects/**, scripts/**")
+					.setValue(this.plugin.settings.validationScanInclude.join(", "))
+					.onChange(async (value) => {
+						this.plugin.settings.validationScanInclude = value
+							.split(",")
+							.map((glob) => glob.trim())
+							.filter((glob) => glob.length > 0);
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Vault scan exclusions")
+			.setDesc("Comma-separated globs of files to skip in vault scans")
+			.addText((text) =>
+				text
+					.setPlaceholder("**/node_modules/**")
+					.setValue(this.plugin.settings.validationScanExclude.join(", "))
+					.onChange(async (value) => {
+						this.plugin.settings.validationScanExclude = value
+							.split(",")
+							.map((glob) => glob.trim())
+							.filter((glob) => glob.length > 0);
+						await this.plugin.saveSettings();
+					})
+			);
+
+		this.displayJsonSchemaSettings(containerEl);
+	}
+
+	/**
+	 * Bundled schemas toggle and the glob → vault schema file table
+	 */
+	private displayJsonSchemaSettings(containerEl: HTMLElement): void {
+		containerEl.createEl("h3", { text: "JSON Schemas" });
+		containerEl.createEl("p", {
+			text: "Schemas provide validation, completion and hovers in JSON and YAML files without network access. Patterns containing \"/\" are relative to the vault root, others match file names in any folder. A \"$schema\" key (JSON) or \"# yaml-language-server: $schema=\" comment (YAML) with a relative or \"/\"-rooted path also loads that schema from the vault.",
+			cls: "setting-item-description"
+		});
+
+		new Setting(containerEl)
+			.setName("Bundled schemas")
+			.setDesc("package.json, tsconfig.json / jsconfig.json, .eslintrc, Obsidian plugin manifest.json, Docker Compose and GitHub Actions workflows")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.bundledJsonSchemas)
+					.onChange(async (value) => {
+						this.plugin.settings.bundledJsonSchemas = value;
+						await this.plugin.saveSettings();
+						this.plugin.jsonSchemaManager.refresh();
+					})
+			);
+
+		this.plugin.settings.jsonSchemaMappings.forEach((mapping, index) => {
+			new Setting(containerEl)
+				.addText((text) => {
+					text
+						.setPlaceholder("config/*.json")
+						.setValue(mapping.pattern)
+						.onChange(async (value) => {
+							await this.updateJsonSchemaMapping(index, { ...mapping, pattern: value });
+						});
+					text.inputEl.style.width = "200px";
+					return text;
+				})
+				.addText((text) => {
+					text
+						.setPlaceholder("schemas/config.schema.json")
+						.setValue(mapping.schema)
+						.onChange(async (value) => {
+							await this.updateJsonSchemaMapping(index, { ...mapping, schema: value });
+						});
+					text.inputEl.style.width = "250px";
+					return text;
+				})
+				.addExtraButton((button) =>
+					button
+						.setIcon("trash")
+						.setTooltip("Remove mapping")
+						.onClick(async () => {
+							await this.updateJsonSchemaMapping(index, null);
+							this.display();
+						})
+				);
+		});
+
+		new Setting(containerEl)
+			.setName("Add schema mapping")
+			.setDesc("Map a glob pattern to a schema file in the vault")
+			.addButton((button) =>
+				button
+					.setButtonText("Add")
+					.onClick(async () => {
+						this.plugin.settings.jsonSchemaMappings = [
+							...this.plugin.settings.jsonSchemaMappings,
+							{ pattern: "", schema: "" },
+						];
+						await this.plugin.saveSettings();
+						this.display();
+					})
+			);
+	}
+
+	private async updateJsonSchemaMapping(index: number, mapping: JsonSchemaMapping | null): Promise<void> {
+		// Replace the array instead of mutating it (it may still be the DEFAULT_SETTINGS array)
+		const mappings = [...this.plugin.settings.jsonSchemaMappings];
+		if (mapping) {
+			mappings[index] = mapping;
+		} else {
+			mappings.splice(index, 1);
+		}
+		this.plugin.settings.jsonSchemaMappings = mappings;
+		await this.plugin.saveSettings();
+		this.plugin.jsonSchemaManager.refresh();
 	}
 
 	private displayEditorSettings(containerEl: HTMLElement): void {
@@ -336,6 +510,23 @@ export class MonacoPrettierSettingTab extends PluginSettingTab {
 		// Advanced Settings
 		containerEl.createEl("h3", { text: "Advanced" });
 
+		new Setting(containerEl)
+			.setName("Vault TypeScript project")
+			.setDesc("Load the vault's .ts/.js/.d.ts files into the TypeScript language service so imports, completion, go-to-definition and errors work across files")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.vaultTypeScriptProject)
+					.onChange(async (value) => {
+						this.plugin.settings.vaultTypeScriptProject = value;
+						await this.plugin.saveSettings();
+						if (value) {
+							this.plugin.vaultTypeScriptSync.start();
+						} else {
+							this.plugin.vaultTypeScriptSync.stop();
+						}
+					})
+			);
+
 		new Setting(containerEl)
 			.setName("Enable Tree-sitter")
 			.setDesc("Use advanced tree-sitter parsing for better syntax validation. Requires language parser downloads (see below).")
@@ -480,9 +671,74 @@ export class MonacoPrettierSettingTab extends PluginSettingTab {
 		// Prettier Settings
 		containerEl.createEl("h3", { text: "Prettier Formatting" });
 
+		new Setting(containerEl)
+			.setName("Use Prettier config files")
+			.setDesc("Honor the nearest .prettierrc, .prettierrc.json/.yaml/.yml or package.json#prettier (including overrides) and .prettierignore. Options below are used where the config file doesn't set them. JavaScript, TOML and JSON5 configs are not supported and turn formatting off for the files they apply to.")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.usePrettierConfigFiles)
+					.onChange(async (value) => {
+						this.plugin.settings.usePrettierConfigFiles = value;
+						await this.plugin.saveSettings();
+						this.display();
+					})
+			);
+
+		if (this.plugin.settings.usePrettierConfigFiles) {
+			this.displayActivePrettierConfig(containerEl);
+		}
+
+		new Setting(containerEl)
+			.setName("Use .editorconfig")
+			.setDesc("Apply indent_style, indent_size, end_of_line, charset from .editorconfig files to the editor and Prettier. insert_final_newline and trim_trailing_whitespace are applied on Ctrl/Cmd+S.")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.useEditorConfig)
+					.onChange(async (value) => {
+						this.plugin.settings.useEditorConfig = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("XML plugin")
+			.setDesc("Format .xml files with @prettier/plugin-xml")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.prettierXmlPlugin)
+					.onChange(async (value) => {
+						this.plugin.settings.prettierXmlPlugin = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("PHP plugin")
+			.setDesc("Format .php files with @prettier/plugin-php")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.prettierPhpPlugin)
+					.onChange(async (value) => {
+						this.plugin.settings.prettierPhpPlugin = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("SQL plugin")
+			.setDesc("Format .sql files with prettier-plugin-sql")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.prettierSqlPlugin)
+					.onChange(async (value) => {
+						this.plugin.settings.prettierSqlPlugin = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
 		new Setting(containerEl)
 			.setName("Format on save")
-			.setDesc("Automatically format files when saving")
+			.setDesc("Format files when saving with Ctrl/Cmd+S and when closing an edited file. Skipped when the file has errors; if formatting fails the file is saved unformatted.")
 			.addToggle((toggle) =>
 				toggle
 					.setValue(this.plugin.settings.formatOnSave)
@@ -492,15 +748,39 @@ export class MonacoPrettierSettingTab extends PluginSettingTab {
 					})
 			);
 
+		new Setting(containerEl)
+			.setName("Format on save timeout")
+			.setDesc("Save without formatting when the formatter takes longer than this (in milliseconds)")
+			.addText((text) =>
+				text
+					.setPlaceholder("3000")
+					.setValue(String(this.plugin.settings.formatOnSaveTimeout))
+					.onChange(async (value) => {
+						const numValue = parseInt(value);
+						if (!isNaN(numValue) && numValue > 0) {
+							this.plugin.settings.formatOnSaveTimeout = numValue;
+							await this.plugin.saveSettings();
+						}
+					})
+			);
+
 		new Setting(containerEl)
 			.setName("Format on type")
-			.setDesc("Automatically format code while typing (with 1s delay)")
+			.setDesc("Reformat the code you just typed with Prettier after ; } or Enter, keeping the cursor in place (JavaScript, TypeScript, CSS, HTML, JSON, Markdown, YAML, GraphQL, Handlebars)")
 			.addToggle((toggle) =>
 				toggle
 					.setValue(this.plugin.settings.formatOnType)
 					.onChange(async (value) => {
 						this.plugin.settings.formatOnType = value;
 						await this.plugin.saveSettings();
+
+						// Update all open Monaco editors immediately
+						this.plugin.app.workspace.iterateAllLeaves((leaf) => {
+							const view = leaf.view as any;
+							if (view.editor?.updateOptions) {
+								view.editor.updateOptions({ formatOnType: value });
+							}
+						});
 					})
 			);
 
@@ -616,6 +896,142 @@ export class MonacoPrettierSettingTab extends PluginSettingTab {
 						await this.plugin.saveSettings();
 					})
 			);
+
+		this.displayFormatterBindings(containerEl);
+	}
+
+	/**
+	 * Per-extension formatter table (Prettier, built-in or a command line)
+	 */
+	private displayFormatterBindings(containerEl: HTMLElement): void {
+		containerEl.createEl("h3", { text: "Formatters" });
+		containerEl.createEl("p", {
+			text: "Choose how each file type is formatted. Auto uses Prettier when it supports the file type, then a built-in formatter (SQL, TOML, Lua), then the command. Commands run on desktop only: they receive the code on stdin and must print the result to stdout, {file} is replaced with the file's path.",
+			cls: "setting-item-description"
+		});
+
+		const formatters = this.plugin.settings.formatters;
+		for (const ext of Object.keys(formatters).sort()) {
+			const binding = formatters[ext];
+			const resolved = FormatterRegistry.resolve(`file.${ext}`, this.plugin.settings);
+
+			const setting = new Setting(containerEl)
+				.setName(`.${ext}`)
+				.setDesc(resolved ? `Uses ${resolved.name}` : "No formatter available")
+				.addDropdown((dropdown) =>
+					dropdown
+						.addOption("auto", "Auto")
+						.addOption("prettier", "Prettier")
+						.addOption("builtin", "Built-in")
+						.addOption("command", "Command")
+						.addOption("none", "None")
+						.setValue(binding.formatter)
+						.onChange(async (value: FormatterKind) => {
+							const current = this.plugin.settings.formatters[ext] ?? binding;
+							await this.updateFormatterBinding(ext, { ...current, formatter: value });
+							this.display();
+						})
+				);
+
+			if (binding.formatter === "auto" || binding.formatter === "command") {
+				setting.addText((text) => {
+					text
+						.setPlaceholder("e.g. black -q -")
+						.setValue(binding.command)
+						.onChange(async (value) => {
+							const current = this.plugin.settings.formatters[ext] ?? binding;
+							await this.updateFormatterBinding(ext, { ...current, command: value });
+						});
+					text.inputEl.style.width = "200px";
+					return text;
+				});
+			}
+
+			setting.addExtraButton((button) =>
+				button
+					.setIcon("trash")
+					.setTooltip("Remove binding (back to Auto)")
+					.onClick(async () => {
+						await this.updateFormatterBinding(ext, null);
+						this.display();
+					})
+			);
+		}
+
+		new Setting(containerEl)
+			.setName("Add file type")
+			.setDesc("File extension to configure a formatter for")
+			.addText((text) => text.setPlaceholder("py"))
+			.addButton((button) =>
+				button
+					.setButtonText("Add")
+					.onClick(async () => {
+						const inputEl = button.buttonEl.parentElement?.querySelector("input");
+						const ext = inputEl?.value?.trim().replace(/^\./, "").toLowerCase();
+						if (!ext) return;
+						if (this.plugin.settings.formatters[ext]) {
+							new Notice(`.${ext} already has a formatter binding`);
+							return;
+						}
+						await this.updateFormatterBinding(ext, { formatter: "auto", command: "" });
+						this.display();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Command timeout")
+			.setDesc("Stop formatter commands that take longer than this (in milliseconds)")
+			.addText((text) =>
+				text
+					.setPlaceholder("10000")
+					.setValue(String(this.plugin.settings.externalFormatterTimeout))
+					.onChange(async (value) => {
+						const numValue = parseInt(value);
+						if (!isNaN(numValue) && numValue > 0) {
+							this.plugin.settings.externalFormatterTimeout = numValue;
+							await this.plugin.saveSettings();
+						}
+					})
+			);
+	}
+
+	private async updateFormatterBinding(ext: string, binding: FormatterBinding | null): Promise<void> {
+		// Replace the record instead of mutating it (it may still be the DEFAULT_SETTINGS object)
+		const formatters = { ...this.plugin.settings.formatters };
+		if (binding) {
+			formatters[ext] = binding;
+		} else {
+			delete formatters[ext];
+		}
+		this.plugin.settings.formatters = formatters;
+		await this.plugin.saveSettings();
+	}
+
+	/**
+	 * Show which Prettier config file applies to the active file
+	 */
+	private displayActivePrettierConfig(containerEl: HTMLElement): void {
+		const activeFile = this.app.workspace.getActiveFile();
+		const setting = new Setting(containerEl).setName("Active configuration");
+
+		if (!activeFile) {
+			setting.setDesc("Open a file to see which Prettier config applies to it");
+			return;
+		}
+
+		setting.setDesc(`Resolving for ${activeFile.path}...`);
+		this.plugin.prettierConfigResolver.resolve(activeFile.path).then((config) => {
+			const source = config.unusableConfig
+				? `${config.unusableConfig.path} ${config.unusableConfig.problem} (formatting is disabled)`
+				: config.configPath ?? "none found (using the options below)";
+			const ignored = config.ignored
+				? ` • ignored by ${config.ignorePath ?? "default ignore rules"}`
+				: "";
+			setting.setDesc(`${activeFile.path}: ${source}${ignored}`);
+		}).catch((error) => {
+			console.error("Failed to resolve Prettier config:", error);
+			setting.setDesc(`Could not resolve config for ${activeFile.path}`);
+		});
 	}
 
 	private displayThemeSettings(containerEl: HTMLElement): void {
@@ -0,0 +1,356 @@
+import * as monaco from "monaco-editor";
+import type { ValidationError } from "./ValidationManager";
+import type { DiagnosticsProvider } from "./DiagnosticsService";
+import { TreeSitterManager } from "./TreeSitterManager";
+
+type SyntaxNode = any;
+
+export interface ShellFix {
+	title: string;
+	line: number;
+	column: number;
+	endLine: number;
+	endColumn: number;
+	text: string;
+}
+
+export interface ShellDiagnostic extends ValidationError {
+	// ShellCheck rule ID (e.g. SC2086)
+	code: string;
+	fix?: ShellFix;
+}
+
+const SHELL_LANGUAGES = ["sh", "bash", "shell", "zsh"];
+// Nodes whose children are statements
+const STATEMENT_CONTAINERS = new Set(["program", "compound_statement", "do_group", "else_clause", "case_item", "subshell", "if_statement", "elif_clause"]);
+// Shells without `[[ ]]` and `==` in tests
+const POSIX_SHELLS = new Set(["sh", "dash", "ash", "posix"]);
+// Expansions that never need quoting (numbers and flags)
+const SAFE_SPECIAL_VARIABLES = new Set(["#", "?", "$", "!", "-"]);
+
+/**
+ * ShellCheck-style linting on the tree-sitter bash syntax tree:
+ * unquoted expansions, `cd` without `|| exit`, useless `cat`, `[ ]`/`[[ ]]` mistakes,
+ * missing shebang and unreachable code, with quick fixes where the rewrite is safe
+ */
+export class ShellLinter {
+	// Last results per model, for the quick fixes
+	private static results = new WeakMap<monaco.editor.ITextModel, { versionId: number; diagnostics: ShellDiagnostic[] }>();
+
+	/**
+	 * Lint a script; null when the bash parser is not installed
+	 * A shebang is only required for files (code blocks have none)
+	 */
+	static async lint(
+		code: string,
+		model: monaco.editor.ITextModel | null,
+		options: { requireShebang: boolean }
+	): Promise<ShellDiagnostic[] | null> {
+		const tree = await TreeSitterManager.getSyntaxTree("bash", code);
+		if (!tree) return null;
+
+		const linter = new ShellLintWalker(detectShell(code));
+		if (options.requireShebang && linter.shell === null) {
+			const firstLine = code.split("\n")[0];
+			linter.report(
+				{ startPosition: { row: 0, column: 0 }, endPosition: { row: 0, column: Math.max(firstLine.length, 1) } },
+				"SC2148", "warning", "Add a shebang (e.g. #!/usr/bin/env bash) so the target shell is known",
+				{ title: "Add #!/usr/bin/env bash", line: 1, column: 1, endLine: 1, endColumn: 1, text: "#!/usr/bin/env bash\n" }
+			);
+		}
+
+		try {
+			linter.walk(tree.rootNode);
+		} finally {
+			tree.delete?.();
+		}
+		linter.diagnostics.sort((a, b) => a.line - b.line || a.column - b.column);
+
+		if (model) {
+			this.results.set(model, { versionId: model.getVersionId(), diagnostics: linter.diagnostics });
+		}
+		return linter.diagnostics;
+	}
+
+	static readonly diagnosticsProvider: DiagnosticsProvider = {
+		id: "shell-linter",
+		source: "Shell linter",
+		appliesTo: (language, settings) => settings.shellLinting && SHELL_LANGUAGES.includes(language),
+		provideDiagnostics: async ({ model, path, code }) => {
+			const diagnostics = await ShellLinter.lint(code, model, { requireShebang: path !== null });
+			if (!diagnostics) console.log("Shell linting needs the Bash tree-sitter parser");
+			return diagnostics ?? [];
+		},
+	};
+
+	/**
+	 * Offer the fixes of the last lint as quick fixes on their markers
+	 */
+	static registerCodeActions(): monaco.IDisposable {
+		return monaco.languages.registerCodeActionProvider("shell", {
+			provideCodeActions: (model, _range, context) => {
+				const result = this.results.get(model);
+				const actions: monaco.languages.CodeAction[] = [];
+				if (!result || result.versionId !== model.getVersionId()) return { actions, dispose: () => {} };
+
+				for (const marker of context.markers) {
+					const code = typeof marker.code === "string" ? marker.code : marker.code?.value;
+					const diagnostic = result.diagnostics.find((candidate) =>
+						candidate.fix && candidate.code === code
+						&& candidate.line === marker.startLineNumber && candidate.column === marker.startColumn
+					);
+					if (!diagnostic?.fix) continue;
+
+					const fix = diagnostic.fix;
+					actions.push({
+						title: `${fix.title} (${diagnostic.code})`,
+						kind: "quickfix",
+						diagnostics: [marker],
+						isPreferred: true,
+						edit: {
+							edits: [{
+								resource: model.uri,
+								versionId: model.getVersionId(),
+								textEdit: { range: new monaco.Range(fix.line, fix.column, fix.endLine, fix.endColumn), text: fix.text },
+							}],
+						},
+					});
+				}
+				return { actions, dispose: () => {} };
+			},
+		}, { providedCodeActionKinds: ["quickfix"] });
+	}
+}
+
+/**
+ * The shell named by the shebang or a `# shellcheck shell=` directive
+ */
+function detectShell(code: string): string | null {
+	const directive = code.match(/^\s*#\s*shellcheck\s+shell=(\w+)/m);
+	if (directive) return directive[1];
+
+	const shebang = code.match(/^#!\s*(\S+)(?:[ \t]+(\S+))?/);
+	if (!shebang) return null;
+	const program = shebang[1].split("/").pop()!;
+	return program === "env" && shebang[2] ? shebang[2] : program;
+}
+
+class ShellLintWalker {
+	readonly diagnostics: ShellDiagnostic[] = [];
+
+	constructor(readonly shell: string | null) {}
+
+	private get posix(): boolean {
+		return this.shell !== null && POSIX_SHELLS.has(this.shell);
+	}
+
+	walk(node: SyntaxNode): void {
+		switch (node.type) {
+			case "simple_expansion":
+			case "expansion":
+				this.checkUnquotedExpansion(node);
+				break;
+			case "command":
+				this.checkCd(node);
+				break;
+			case "pipeline":
+				this.checkUselessCat(node);
+				break;
+			case "test_command":
+				this.checkTest(node);
+				break;
+		}
+		if (STATEMENT_CONTAINERS.has(node.type)) {
+			this.checkUnreachable(node);
+		}
+
+		for (const child of node.children) {
+			this.walk(child);
+		}
+	}
+
+	report(node: SyntaxNode, code: string, severity: ValidationError["severity"], message: string, fix?: ShellFix): void {
+		this.diagnostics.push({
+			line: node.startPosition.row + 1,
+			column: node.startPosition.column + 1,
+			endLine: node.endPosition.row + 1,
+			endColumn: node.endPosition.column + 1,
+			message,
+			severity,
+			code,
+			fix,
+		});
+	}
+
+	/**
+	 * SC2086/SC2068: `$var` as a command argument, redirect target or `[ ]` operand is split and globbed
+	 */
+	private checkUnquotedExpansion(node: SyntaxNode): void {
+		const name = node.namedChildren.find((child: SyntaxNode) => child.type === "variable_name" || child.type === "special_variable_name")?.text;
+		if (name === undefined || SAFE_SPECIAL_VARIABLES.has(name) || node.text.startsWith("${#")) return;
+
+		const target = node.parent?.type === "concatenation" ? node.parent : node;
+		const context = target.parent;
+		if (!context) return;
+
+		const inSingleBracketTest = (context.type === "binary_expression" || context.type === "unary_expression")
+			&& closestAncestor(context, "test_command")?.child(0)?.type === "[";
+		const exposed = (context.type === "command" && fieldName(target) === "argument")
+			|| context.type === "file_redirect"
+			|| inSingleBracketTest;
+		if (!exposed) return;
+
+		const fix = { title: `Wrap ${node.text} in double quotes`, ...rangeOf(node), text: `"${node.text}"` };
+		if (name === "@" || name === "*") {
+			this.report(node, "SC2068", "warning", "Double quote array expansions to avoid re-splitting elements", fix);
+		} else {
+			this.report(node, "SC2086", "warning", "Double quote to prevent globbing and word splitting", fix);
+		}
+	}
+
+	/**
+	 * SC2164: a failed `cd` leaves the script running in the wrong directory
+	 */
+	private checkCd(node: SyntaxNode): void {
+		if (node.childForFieldName("name")?.text !== "cd" || !isStatement(node)) return;
+
+		const fallback = closestAncestor(node, "function_definition") ? "return" : "exit";
+		const end = node.endPosition;
+		this.report(node, "SC2164", "warning", `Use 'cd ... || ${fallback}' in case cd fails`, {
+			title: `Add || ${fallback}`,
+			line: end.row + 1,
+			column: end.column + 1,
+			endLine: end.row + 1,
+			endColumn: end.column + 1,
+			text: ` || ${fallback}`,
+		});
+	}
+
+	/**
+	 * SC2002: `cat file | cmd` is `cmd < file` with an extra process
+	 */
+	private checkUselessCat(node: SyntaxNode): void {
+		const [first, second] = node.namedChildren;
+		if (first?.type !== "command" || second?.type !== "command") return;
+		if (first.childForFieldName("name")?.text !== "cat") return;
+
+		const files = first.children.filter((child: SyntaxNode, index: number) => first.fieldNameForChild(index) === "argument");
+		if (files.length !== 1 || files[0].text.startsWith("-")) return;
+
+		this.report(first, "SC2002", "warning", "Useless cat. Consider 'cmd < file' instead", {
+			title: `Redirect ${files[0].text} into ${second.childForFieldName("name")?.text ?? "the command"}`,
+			line: first.startPosition.row + 1,
+			column: first.startPosition.column + 1,
+			endLine: second.startPosition.row + 1,
+			endColumn: second.startPosition.column + 1,
+			text: `< ${files[0].text} `,
+		});
+	}
+
+	/**
+	 * SC2107/SC2108/SC2071/SC2073/SC3010/SC3014: operators that mean something else in `[ ]` or `[[ ]]`
+	 */
+	private checkTest(node: SyntaxNode): void {
+		const singleBracket = node.child(0)?.type === "[";
+		if (!singleBracket && this.posix) {
+			this.report(node, "SC3010", "warning", "In POSIX sh, [[ ]] is undefined");
+		}
+
+		for (const expression of descendantsOfType(node, "binary_expression")) {
+			const operator = expression.childForFieldName("operator");
+			if (!operator) continue;
+			const op = operator.text;
+			const replace = (title: string, text: string): ShellFix => ({ title, ...rangeOf(operator), text });
+
+			if (singleBracket) {
+				if (op === "&&" || op === "||") {
+					this.report(operator, "SC2107", "error", `Instead of [ a ${op} b ], use [ a ] ${op} [ b ]`, replace(`Split into [ ] ${op} [ ]`, `] ${op} [`));
+				} else if (op === "==" && this.posix) {
+					this.report(operator, "SC3014", "warning", "In POSIX sh, == in place of = is undefined", replace("Use =", "="));
+				} else if (op === ">" || op === "<") {
+					const numeric = [expression.childForFieldName("left"), expression.childForFieldName("right")].some((side) => side?.type === "number");
+					const numericOperator = op === ">" ? "-gt" : "-lt";
+					if (numeric) {
+						this.report(operator, "SC2071", "error", `${op} is for string comparisons. Use ${numericOperator} instead`, replace(`Use ${numericOperator}`, numericOperator));
+					} else {
+						this.report(operator, "SC2073", "error", `Escape \\${op} to prevent it redirecting`, replace(`Escape ${op}`, `\\${op}`));
+					}
+				}
+			} else if (op === "-a" || op === "-o") {
+				const logical = op === "-a" ? "&&" : "||";
+				this.report(operator, "SC2108", "error", `In [[..]], use ${logical} instead of ${op}`, replace(`Use ${logical}`, logical));
+			}
+		}
+	}
+
+	/**
+	 * SC2317: statements after `exit` or `return` in the same block never run
+	 * Function definitions are skipped since they can be called from earlier code
+	 */
+	private checkUnreachable(container: SyntaxNode): void {
+		let terminated = false;
+		const unreachable: SyntaxNode[] = [];
+
+		for (const child of container.namedChildren) {
+			if (child.type === "comment" || child.type === "function_definition") continue;
+			if (child.type === "elif_clause" || child.type === "else_clause" || fieldName(child) === "condition") continue;
+
+			if (terminated) {
+				unreachable.push(child);
+			} else if (child.type === "command" && ["exit", "return"].includes(child.childForFieldName("name")?.text)) {
+				terminated = true;
+			}
+		}
+
+		if (unreachable.length === 0) return;
+		const last = unreachable[unreachable.length - 1];
+		this.report(
+			{ startPosition: unreachable[0].startPosition, endPosition: last.endPosition },
+			"SC2317", "warning", "Command appears to be unreachable"
+		);
+	}
+}
+
+/**
+ * Whether a node runs as a statement of its own (not a condition or part of a list or pipeline)
+ */
+function isStatement(node: SyntaxNode): boolean {
+	const parent = node.parent;
+	if (!parent || !STATEMENT_CONTAINERS.has(parent.type)) return false;
+	return fieldName(node) !== "condition";
+}
+
+function fieldName(node: SyntaxNode): string | null {
+	const parent = node.parent;
+	if (!parent) return null;
+	for (let index = 0; index < parent.childCount; index++) {
+		if (parent.child(index)?.id === node.id) return parent.fieldNameForChild(index);
+	}
+	return null;
+}
+
+function closestAncestor(node: SyntaxNode, type: string): SyntaxNode | null {
+	for (let current = node.parent; current; current = current.parent) {
+		if (current.type === type) return current;
+	}
+	return null;
+}
+
+function descendantsOfType(node: SyntaxNode, type: string): SyntaxNode[] {
+	const result: SyntaxNode[] = [];
+	const visit = (current: SyntaxNode) => {
+		if (current.type === type) result.push(current);
+		for (const child of current.children) visit(child);
+	};
+	visit(node);
+	return result;
+}
+
+function rangeOf(node: SyntaxNode): Pick<ShellFix, "line" | "column" | "endLine" | "endColumn"> {
+	return {
+		line: node.startPosition.row + 1,
+		column: node.startPosition.column + 1,
+		endLine: node.endPosition.row + 1,
+		endColumn: node.endPosition.column + 1,
+	};
+}
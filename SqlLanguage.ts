@@ -0,0 +1,308 @@
+import * as monaco from "monaco-editor";
+import type { Parser } from "node-sql-parser";
+import type { ValidationError } from "./ValidationManager";
+import type { MonacoPrettierSettings, SqlDialect } from "./settings";
+
+// node-sql-parser database names
+const PARSER_DATABASES: Record<SqlDialect, string> = {
+	postgresql: "PostgresQL",
+	mysql: "MySQL",
+	sqlite: "Sqlite",
+	transactsql: "TransactSQL",
+	bigquery: "BigQuery",
+};
+
+// Names accepted in a `-- dialect: <name>` comment
+const DIALECT_ALIASES: Record<string, SqlDialect> = {
+	postgresql: "postgresql",
+	postgres: "postgresql",
+	pg: "postgresql",
+	mysql: "mysql",
+	mariadb: "mysql",
+	sqlite: "sqlite",
+	transactsql: "transactsql",
+	tsql: "transactsql",
+	mssql: "transactsql",
+	sqlserver: "transactsql",
+	bigquery: "bigquery",
+};
+
+// Only the comments at the top of the file are searched
+const DIALECT_COMMENT = /^(?:\s*(?:--[^\n]*|\/\*[\s\S]*?\*\/))*?\s*(?:--|\/\*)\s*dialect\s*:\s*([\w-]+)/i;
+
+const KEYWORDS = [
+	"SELECT", "DISTINCT", "FROM", "WHERE", "GROUP BY", "HAVING", "ORDER BY", "LIMIT", "OFFSET", "AS",
+	"JOIN", "INNER JOIN", "LEFT JOIN", "RIGHT JOIN", "FULL JOIN", "CROSS JOIN", "ON", "USING",
+	"UNION", "UNION ALL", "INTERSECT", "EXCEPT", "WITH", "CASE", "WHEN", "THEN", "ELSE", "END",
+	"AND", "OR", "NOT", "IN", "EXISTS", "BETWEEN", "LIKE", "IS NULL", "IS NOT NULL", "ASC", "DESC",
+	"INSERT INTO", "VALUES", "UPDATE", "SET", "DELETE FROM", "RETURNING",
+	"CREATE TABLE", "CREATE INDEX", "CREATE VIEW", "ALTER TABLE", "DROP TABLE", "ADD COLUMN",
+	"PRIMARY KEY", "FOREIGN KEY", "REFERENCES", "UNIQUE", "DEFAULT", "NOT NULL", "CHECK",
+	"COUNT", "SUM", "AVG", "MIN", "MAX", "COALESCE", "CAST",
+];
+
+interface SqlStatement {
+	text: string;
+	// Offset of the statement in the document
+	offset: number;
+}
+
+interface SqlTable {
+	name: string;
+	columns: { name: string; type: string }[];
+}
+
+/**
+ * SQL validation with node-sql-parser in the file's dialect, and completion of keywords
+ * and of the tables and columns created by `CREATE TABLE` statements in the same file
+ */
+export class SqlLanguage {
+	private static parsers = new Map<SqlDialect, Parser>();
+	private static tableCache = new WeakMap<monaco.editor.ITextModel, { versionId: number; tables: SqlTable[] }>();
+
+	/**
+	 * The dialect named in a `-- dialect: mysql` comment at the top of the file, else the setting
+	 */
+	static getDialect(code: string, fallback: SqlDialect): SqlDialect {
+		const name = code.match(DIALECT_COMMENT)?.[1].toLowerCase();
+		return (name && DIALECT_ALIASES[name]) || fallback;
+	}
+
+	/**
+	 * Parse every statement separately so each one with an error is reported
+	 */
+	static async validate(code: string, dialect: SqlDialect): Promise<ValidationError[]> {
+		const fileDialect = this.getDialect(code, dialect);
+		const parser = await this.getParser(fileDialect);
+		const database = PARSER_DATABASES[fileDialect];
+		const errors: ValidationError[] = [];
+
+		for (const statement of splitStatements(code)) {
+			try {
+				parser.astify(statement.text, { database });
+			} catch (error) {
+				if (!error?.location) {
+					console.warn("SqlLanguage: parser failed:", error);
+					continue;
+				}
+				const atEnd = error.found === null || error.found === undefined;
+				// At the end of input, point at the statement's last character
+				const start = atEnd
+					? statement.offset + Math.max(statement.text.trimEnd().length - 1, 0)
+					: statement.offset + error.location.start.offset;
+				// Underline the whole word the parser stopped at
+				const word = code.substring(start).match(/^\w+/)?.[0];
+				const end = word ? start + word.length : Math.max(statement.offset + error.location.end.offset, start + 1);
+				errors.push({
+					...toPosition(code, start),
+					...toEndPosition(code, end),
+					message: atEnd ? "Syntax error: unexpected end of statement" : `Syntax error: unexpected '${word ?? error.found}'`,
+					severity: "error",
+				});
+			}
+		}
+
+		return errors;
+	}
+
+	/**
+	 * Keyword, table and column completion
+	 */
+	static registerProviders(getSettings: () => MonacoPrettierSettings): monaco.IDisposable {
+		return monaco.languages.registerCompletionItemProvider("sql", {
+			triggerCharacters: ["."],
+			provideCompletionItems: async (model, position) => {
+				const tables = await this.getTables(model, getSettings().sqlDialect);
+				const word = model.getWordUntilPosition(position);
+				const range = new monaco.Range(position.lineNumber, word.startColumn, position.lineNumber, word.endColumn);
+				const suggestions: monaco.languages.CompletionItem[] = [];
+
+				// `table.` only offers that table's columns
+				const before = model.getLineContent(position.lineNumber).substring(0, word.startColumn - 1);
+				const qualifier = before.match(/([\w"`\[\]]+)\.$/)?.[1];
+				if (qualifier) {
+					const table = tables.find((candidate) => sameName(candidate.name, unquoteIdentifier(qualifier)));
+					for (const column of table?.columns ?? []) {
+						suggestions.push({ label: column.name, kind: monaco.languages.CompletionItemKind.Field, detail: column.type, insertText: column.name, range });
+					}
+					return { suggestions };
+				}
+
+				for (const table of tables) {
+					suggestions.push({
+						label: table.name,
+						kind: monaco.languages.CompletionItemKind.Struct,
+						detail: `table (${table.columns.length} columns)`,
+						insertText: table.name,
+						range,
+					});
+					for (const column of table.columns) {
+						suggestions.push({
+							label: column.name,
+							kind: monaco.languages.CompletionItemKind.Field,
+							detail: `${table.name}.${column.name} ${column.type}`.trim(),
+							insertText: column.name,
+							range,
+						});
+					}
+				}
+				for (const keyword of KEYWORDS) {
+					suggestions.push({ label: keyword, kind: monaco.languages.CompletionItemKind.Keyword, insertText: keyword, range });
+				}
+
+				return { suggestions };
+			},
+		});
+	}
+
+	/**
+	 * Tables from the file's `CREATE TABLE` statements (cached per model version)
+	 */
+	private static async getTables(model: monaco.editor.ITextModel, dialect: SqlDialect): Promise<SqlTable[]> {
+		const cached = this.tableCache.get(model);
+		if (cached && cached.versionId === model.getVersionId()) return cached.tables;
+
+		const code = model.getValue();
+		const fileDialect = this.getDialect(code, dialect);
+		const parser = await this.getParser(fileDialect);
+		const database = PARSER_DATABASES[fileDialect];
+		const tables: SqlTable[] = [];
+
+		for (const statement of splitStatements(code)) {
+			if (!/^\s*create\b[\s\S]*?\btable\b/i.test(stripComments(statement.text))) continue;
+			try {
+				const ast = parser.astify(statement.text, { database });
+				for (const node of Array.isArray(ast) ? ast : [ast]) {
+					const table = toTable(node);
+					if (table) tables.push(table);
+				}
+			} catch {
+				// Statements with errors are reported by validation
+			}
+		}
+
+		this.tableCache.set(model, { versionId: model.getVersionId(), tables });
+		return tables;
+	}
+
+	/**
+	 * Load the parser build of one dialect (the default build bundles every dialect)
+	 */
+	private static async getParser(dialect: SqlDialect): Promise<Parser> {
+		const cached = this.parsers.get(dialect);
+		if (cached) return cached;
+
+		let build: typeof import("node-sql-parser");
+		switch (dialect) {
+			case "postgresql":
+				build = await import("node-sql-parser/build/postgresql");
+				break;
+			case "mysql":
+				build = await import("node-sql-parser/build/mysql");
+				break;
+			case "sqlite":
+				build = await import("node-sql-parser/build/sqlite");
+				break;
+			case "transactsql":
+				build = await import("node-sql-parser/build/transactsql");
+				break;
+			case "bigquery":
+				build = await import("node-sql-parser/build/bigquery");
+				break;
+		}
+
+		const parser = new build.Parser();
+		this.parsers.set(dialect, parser);
+		console.log(`SQL: loaded the ${dialect} parser`);
+		return parser;
+	}
+}
+
+/**
+ * Split SQL at top-level semicolons, skipping strings, quoted identifiers, comments and dollar quotes
+ */
+function splitStatements(code: string): SqlStatement[] {
+	const statements: SqlStatement[] = [];
+	let start = 0;
+	let pos = 0;
+
+	// The parser trims leading whitespace, which would shift its error offsets
+	const push = (end: number) => {
+		const text = code.substring(start, end);
+		const leading = text.length - text.trimStart().length;
+		if (stripComments(text).trim()) statements.push({ text: text.substring(leading), offset: start + leading });
+	};
+
+	while (pos < code.length) {
+		const char = code[pos];
+		if (char === "'" || char === '"' || char === "`") {
+			// Doubled quotes are escapes and simply reopen the string
+			const close = code.indexOf(char, pos + 1);
+			pos = close === -1 ? code.length : close + 1;
+		} else if (code.startsWith("--", pos)) {
+			const newline = code.indexOf("\n", pos);
+			pos = newline === -1 ? code.length : newline + 1;
+		} else if (code.startsWith("/*", pos)) {
+			const close = code.indexOf("*/", pos + 2);
+			pos = close === -1 ? code.length : close + 2;
+		} else if (char === "$") {
+			const tag = code.substring(pos).match(/^\$(?:[A-Za-z_]\w*)?\$/)?.[0];
+			if (tag) {
+				const close = code.indexOf(tag, pos + tag.length);
+				pos = close === -1 ? code.length : close + tag.length;
+			} else {
+				pos++;
+			}
+		} else if (char === ";") {
+			push(pos + 1);
+			pos++;
+			start = pos;
+		} else {
+			pos++;
+		}
+	}
+	push(code.length);
+
+	return statements;
+}
+
+function stripComments(sql: string): string {
+	return sql.replace(/--[^\n]*/g, "").replace(/\/\*[\s\S]*?\*\//g, "");
+}
+
+function toTable(node: any): SqlTable | null {
+	if (node?.type !== "create" || String(node.keyword).toLowerCase() !== "table") return null;
+	const tableRef = Array.isArray(node.table) ? node.table[0] : node.table;
+	const name = tableRef?.table;
+	if (typeof name !== "string") return null;
+
+	const columns: SqlTable["columns"] = [];
+	for (const definition of node.create_definitions ?? []) {
+		if (definition.resource !== "column") continue;
+		const column = definition.column?.column;
+		const columnName = typeof column === "string" ? column : column?.expr?.value;
+		if (typeof columnName !== "string") continue;
+		const type = definition.definition?.dataType ?? "";
+		const length = definition.definition?.length;
+		columns.push({ name: columnName, type: length ? `${type}(${length})` : type });
+	}
+	return { name, columns };
+}
+
+function unquoteIdentifier(identifier: string): string {
+	return identifier.replace(/^["`\[]|["`\]]$/g, "");
+}
+
+function sameName(a: string, b: string): boolean {
+	return a.toLowerCase() === b.toLowerCase();
+}
+
+function toPosition(code: string, offset: number): { line: number; column: number } {
+	const before = code.substring(0, offset);
+	return { line: before.split("\n").length, column: offset - before.lastIndexOf("\n") };
+}
+
+function toEndPosition(code: string, offset: number): { endLine: number; endColumn: number } {
+	const { line, column } = toPosition(code, offset);
+	return { endLine: line, endColumn: column };
+}
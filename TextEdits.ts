@@ -0,0 +1,259 @@
+import * as monaco from "monaco-editor";
+
+/**
+ * Helpers for turning formatter output into Monaco text edits
+ */
+
+/**
+ * A run of changed lines between two texts (0-based, end exclusive)
+ */
+export interface LineDiffHunk {
+	oldStart: number;
+	oldEnd: number;
+	newStart: number;
+	newEnd: number;
+}
+
+// Past this many inserted/deleted lines the whole changed region becomes one hunk
+const MAX_DIFF_COST = 2000;
+
+/**
+ * Myers line diff: the changed hunks between `oldLines` and `newLines`
+ */
+export function diffLines(oldLines: string[], newLines: string[]): LineDiffHunk[] {
+	// Formatting usually keeps the start and end of a file, skip them up front
+	let start = 0;
+	while (start < oldLines.length && start < newLines.length && oldLines[start] === newLines[start]) {
+		start++;
+	}
+
+	let oldEnd = oldLines.length;
+	let newEnd = newLines.length;
+	while (oldEnd > start && newEnd > start && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+		oldEnd--;
+		newEnd--;
+	}
+
+	if (start === oldEnd && start === newEnd) return [];
+
+	const a = oldLines.slice(start, oldEnd);
+	const b = newLines.slice(start, newEnd);
+	const n = a.length;
+	const m = b.length;
+	const max = n + m;
+
+	// v[k] = furthest x reached on diagonal k (stored at k + max)
+	const v = new Int32Array(2 * max + 2);
+	// Snapshot of v[-d..d] after each step, for backtracking
+	const trace: Int32Array[] = [];
+	let cost = -1;
+
+	for (let d = 0; d <= Math.min(max, MAX_DIFF_COST) && cost === -1; d++) {
+		for (let k = -d; k <= d; k += 2) {
+			let x = k === -d || (k !== d && v[max + k - 1] < v[max + k + 1]) ? v[max + k + 1] : v[max + k - 1] + 1;
+			let y = x - k;
+			while (x < n && y < m && a[x] === b[y]) {
+				x++;
+				y++;
+			}
+			v[max + k] = x;
+			if (x >= n && y >= m) {
+				cost = d;
+				break;
+			}
+		}
+		trace.push(v.slice(max - d, max + d + 1));
+	}
+
+	if (cost === -1) {
+		return [{ oldStart: start, oldEnd, newStart: start, newEnd }];
+	}
+
+	// Walk the edit path backwards, collecting matched line pairs
+	const matches: [number, number][] = [];
+	let x = n;
+	let y = m;
+	for (let d = cost; d > 0; d--) {
+		const previous = trace[d - 1];
+		const at = (k: number) => previous[k + d - 1];
+		const k = x - y;
+		const previousK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+		const previousX = at(previousK);
+		const previousY = previousX - previousK;
+
+		while (x > previousX && y > previousY) {
+			matches.push([x - 1, y - 1]);
+			x--;
+			y--;
+		}
+		x = previousX;
+		y = previousY;
+	}
+	while (x > 0 && y > 0) {
+		matches.push([x - 1, y - 1]);
+		x--;
+		y--;
+	}
+	matches.reverse();
+
+	// Changed hunks are the gaps between matched lines
+	const hunks: LineDiffHunk[] = [];
+	let oldLine = 0;
+	let newLine = 0;
+	for (const [matchedOld, matchedNew] of [...matches, [n, m] as [number, number]]) {
+		if (matchedOld > oldLine || matchedNew > newLine) {
+			hunks.push({
+				oldStart: start + oldLine,
+				oldEnd: start + matchedOld,
+				newStart: start + newLine,
+				newEnd: start + matchedNew,
+			});
+		}
+		oldLine = matchedOld + 1;
+		newLine = matchedNew + 1;
+	}
+
+	return hunks;
+}
+
+/**
+ * Options for {@link computeMinimalEdits}
+ */
+export interface MinimalEditOptions {
+	// Cursor offset in the model and where the formatter moved it to in the new text;
+	// the hunk containing the cursor is split there so the caret stays in place
+	cursor?: { offset: number; newOffset: number };
+	// Only produce edits for hunks accepted by this filter
+	filter?: (hunk: LineDiffHunk) => boolean;
+}
+
+/**
+ * Compute small edits turning the model text into `newText`: one edit per changed
+ * line hunk, narrowed to the characters that differ
+ * Unchanged lines are never touched, so markers, folding and the undo stack are preserved
+ */
+export function computeMinimalEdits(
+	model: monaco.editor.ITextModel,
+	newText: string,
+	options: MinimalEditOptions = {}
+): monaco.languages.TextEdit[] {
+	const eol = model.getEOL();
+	const oldText = model.getValue();
+	const rawNewLines = newText.split(/\r?\n/);
+	const normalizedText = rawNewLines.join(eol);
+	if (oldText === normalizedText) return [];
+
+	const oldLines = model.getLinesContent();
+	const oldStarts = getLineStarts(oldLines, eol);
+	const newStarts = getLineStarts(rawNewLines, eol);
+
+	// Map the formatter's cursor into the EOL-normalized text
+	let cursor: { offset: number; newOffset: number } | null = null;
+	if (options.cursor && options.cursor.newOffset >= 0) {
+		const before = newText.substring(0, options.cursor.newOffset).split(/\r?\n/);
+		const line = before.length - 1;
+		cursor = { offset: options.cursor.offset, newOffset: newStarts[line] + before[line].length };
+	}
+
+	const edits: monaco.languages.TextEdit[] = [];
+	for (const hunk of diffLines(oldLines, rawNewLines)) {
+		if (options.filter && !options.filter(hunk)) continue;
+
+		// A hunk running to the end of the text also owns the line break before it,
+		// since the last line has no trailing line break of its own
+		const atEnd = hunk.oldEnd === oldLines.length && hunk.oldStart > 0 && hunk.newStart > 0;
+		const oldStart = oldStarts[hunk.oldStart] - (atEnd ? eol.length : 0);
+		const newStart = newStarts[hunk.newStart] - (atEnd ? eol.length : 0);
+		const oldEnd = Math.min(oldStarts[hunk.oldEnd], oldText.length);
+		const newEnd = Math.min(newStarts[hunk.newEnd], normalizedText.length);
+
+		if (cursor && cursor.offset > oldStart && cursor.offset < oldEnd && cursor.newOffset >= newStart && cursor.newOffset <= newEnd) {
+			pushNarrowedEdit(edits, model, oldText, normalizedText, oldStart, cursor.offset, newStart, cursor.newOffset);
+			pushNarrowedEdit(edits, model, oldText, normalizedText, cursor.offset, oldEnd, cursor.newOffset, newEnd);
+		} else {
+			pushNarrowedEdit(edits, model, oldText, normalizedText, oldStart, oldEnd, newStart, newEnd);
+		}
+	}
+
+	return edits;
+}
+
+/**
+ * Apply formatter output to an editor as minimal edits in a single undo step
+ * Only changed characters are replaced, so selections, folded regions, decorations,
+ * markers and the scroll position survive formatting
+ * Returns false when the text was already formatted
+ */
+export function applyFormattedText(editor: monaco.editor.ICodeEditor, newText: string): boolean {
+	const model = editor.getModel();
+	if (!model) return false;
+
+	const edits = computeMinimalEdits(model, newText);
+	if (edits.length === 0) return false;
+
+	model.pushStackElement();
+	// Returning null keeps the selections Monaco tracked through the edits
+	model.pushEditOperations(
+		editor.getSelections() ?? [],
+		edits.map((edit) => ({ range: edit.range, text: edit.text })),
+		() => null
+	);
+	model.pushStackElement();
+	return true;
+}
+
+/**
+ * Offset of each line start, plus one past the end for convenience
+ */
+function getLineStarts(lines: string[], eol: string): number[] {
+	const starts: number[] = [];
+	let offset = 0;
+	for (const line of lines) {
+		starts.push(offset);
+		offset += line.length + eol.length;
+	}
+	starts.push(offset);
+	return starts;
+}
+
+/**
+ * Add an edit replacing old[oldStart, oldEnd) with new[newStart, newEnd),
+ * trimmed to the characters that actually differ
+ */
+function pushNarrowedEdit(
+	edits: monaco.languages.TextEdit[],
+	model: monaco.editor.ITextModel,
+	oldText: string,
+	newText: string,
+	oldStart: number,
+	oldEnd: number,
+	newStart: number,
+	newEnd: number
+): void {
+	while (oldStart < oldEnd && newStart < newEnd && oldText.charCodeAt(oldStart) === newText.charCodeAt(newStart)) {
+		oldStart++;
+		newStart++;
+	}
+	while (oldEnd > oldStart && newEnd > newStart && oldText.charCodeAt(oldEnd - 1) === newText.charCodeAt(newEnd - 1)) {
+		oldEnd--;
+		newEnd--;
+	}
+	if (oldStart === oldEnd && newStart === newEnd) return;
+
+	// Never split a CRLF pair; Monaco positions cannot point between \r and \n
+	if (oldText.charCodeAt(oldStart - 1) === 13 && oldText.charCodeAt(oldStart) === 10) {
+		oldStart--;
+		newStart--;
+	}
+	if (oldText.charCodeAt(oldEnd - 1) === 13 && oldText.charCodeAt(oldEnd) === 10) {
+		oldEnd++;
+		newEnd++;
+	}
+
+	const start = model.getPositionAt(oldStart);
+	const end = model.getPositionAt(oldEnd);
+	edits.push({
+		range: new monaco.Range(start.lineNumber, start.column, end.lineNumber, end.column),
+		text: newText.substring(newStart, newEnd),
+	});
+}
@@ -0,0 +1,680 @@
+import * as monaco from "monaco-editor";
+import type { ValidationError } from "./ValidationManager";
+
+// Bare or quoted key, for the tokenizer
+const KEY_PATTERN = /(?:[A-Za-z0-9_-]+|"(?:[^"\\]|\\.)*"|'[^']*')/;
+
+const TOML_TOKENS: monaco.languages.IMonarchLanguage = {
+	defaultToken: "",
+	tokenPostfix: ".toml",
+	key: KEY_PATTERN,
+	escapes: /\\(?:[btnfre"\\]|x[0-9a-fA-F]{2}|u[0-9a-fA-F]{4}|U[0-9a-fA-F]{8})/,
+	brackets: [
+		{ open: "{", close: "}", token: "delimiter.curly" },
+		{ open: "[", close: "]", token: "delimiter.square" },
+	],
+	tokenizer: {
+		root: [
+			{ include: "@whitespace" },
+			// [table] and [[array.of.tables]] headers (a header holds only keys, unlike a nested array)
+			[/^\s*\[\[?\s*@key(?:\s*\.\s*@key)*\s*\]\]?/, "metatag"],
+			[/@key(?:\s*\.\s*@key)*(?=\s*=)/, "key"],
+			[/"""/, "string", "@multilineBasic"],
+			[/'''/, "string", "@multilineLiteral"],
+			[/"(?:[^"\\]|\\.)*$/, "string.invalid"],
+			[/"/, "string", "@basic"],
+			[/'[^']*$/, "string.invalid"],
+			[/'[^']*'/, "string"],
+			[/\d{4}-\d{2}-\d{2}(?:[Tt ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:[Zz]|[+-]\d{2}:\d{2})?)?/, "number.date"],
+			[/\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?/, "number.date"],
+			[/[+-]?(?:inf|nan)\b/, "number.float"],
+			[/0x[0-9a-fA-F_]+/, "number.hex"],
+			[/0o[0-7_]+/, "number.octal"],
+			[/0b[01_]+/, "number.binary"],
+			[/[+-]?\d[\d_]*(?:\.\d[\d_]*)?[eE][+-]?\d[\d_]*/, "number.float"],
+			[/[+-]?\d[\d_]*\.\d[\d_]*/, "number.float"],
+			[/[+-]?\d[\d_]*/, "number"],
+			[/\b(?:true|false)\b/, "keyword"],
+			[/[{}[\]]/, "@brackets"],
+			[/[=,.]/, "delimiter"],
+		],
+		whitespace: [
+			[/[ \t\r\n]+/, ""],
+			[/#.*$/, "comment"],
+		],
+		basic: [
+			[/[^"\\]+/, "string"],
+			[/@escapes/, "string.escape"],
+			[/\\./, "string.escape.invalid"],
+			[/"/, "string", "@pop"],
+		],
+		multilineBasic: [
+			[/[^"\\]+/, "string"],
+			[/@escapes/, "string.escape"],
+			[/\\\s*$/, "string.escape"],
+			[/\\./, "string.escape.invalid"],
+			[/"""/, "string", "@pop"],
+			[/"/, "string"],
+		],
+		multilineLiteral: [
+			[/[^']+/, "string"],
+			[/'''/, "string", "@pop"],
+			[/'/, "string"],
+		],
+	},
+};
+
+const TOML_CONFIGURATION: monaco.languages.LanguageConfiguration = {
+	comments: { lineComment: "#" },
+	brackets: [
+		["{", "}"],
+		["[", "]"],
+	],
+	autoClosingPairs: [
+		{ open: "{", close: "}" },
+		{ open: "[", close: "]" },
+		{ open: '"', close: '"', notIn: ["string"] },
+		{ open: "'", close: "'", notIn: ["string"] },
+	],
+	surroundingPairs: [
+		{ open: "{", close: "}" },
+		{ open: "[", close: "]" },
+		{ open: '"', close: '"' },
+		{ open: "'", close: "'" },
+	],
+};
+
+/**
+ * TOML language: Monarch highlighting and validation
+ * Validation follows TOML 1.0 with the 1.1 relaxations (optional seconds, `\e` and `\x` escapes,
+ * multi-line inline tables with trailing commas) so newer files are not flagged
+ */
+export class TomlLanguage {
+	private static registered = false;
+
+	/**
+	 * Register the `toml` language (Monaco only ships INI highlighting)
+	 */
+	static register(): monaco.IDisposable {
+		if (!this.registered) {
+			// Languages cannot be unregistered, so this happens once per session
+			monaco.languages.register({ id: "toml", extensions: [".toml"], aliases: ["TOML", "toml"] });
+			this.registered = true;
+		}
+
+		const tokens = monaco.languages.setMonarchTokensProvider("toml", TOML_TOKENS);
+		const configuration = monaco.languages.setLanguageConfiguration("toml", TOML_CONFIGURATION);
+		return {
+			dispose: () => {
+				tokens.dispose();
+				configuration.dispose();
+			},
+		};
+	}
+
+	/**
+	 * Report syntax errors, duplicate keys, conflicting table definitions and invalid date-times
+	 */
+	static validate(code: string): ValidationError[] {
+		return new TomlParser(code).parse();
+	}
+}
+
+interface TomlNode {
+	kind: "table" | "tables" | "value";
+	// How a table came to exist: its own [header], implicitly as the parent of a header, dotted keys or inline
+	origin?: "header" | "implicit" | "dotted" | "inline";
+	children?: Map<string, TomlNode>;
+	// Tables of an [[array of tables]]
+	items?: TomlNode[];
+	// Arrays cannot be extended with [[headers]]
+	isArray?: boolean;
+}
+
+interface TomlKey {
+	parts: string[];
+	start: number;
+	end: number;
+}
+
+class TomlSyntaxError extends Error {
+	constructor(message: string, readonly start: number, readonly end: number) {
+		super(message);
+	}
+}
+
+const BARE_KEY = /[A-Za-z0-9_-]+/y;
+const SCALAR = /[^\s,\]}#]+/y;
+const ESCAPE = /\\(?:[btnfre"\\]|x[0-9a-fA-F]{2}|u[0-9a-fA-F]{4}|U[0-9a-fA-F]{8})/y;
+const LINE_ENDING_BACKSLASH = /\\[ \t]*\r?\n/y;
+const CONTROL_CHARACTER = /[\x00-\x08\x0b\x0c\x0e-\x1f\x7f]/;
+
+const INTEGER = /^[+-]?(?:0|[1-9](?:_?\d)*)$/;
+const PREFIXED_INTEGER = /^(?:0x[0-9a-fA-F](?:_?[0-9a-fA-F])*|0o[0-7](?:_?[0-7])*|0b[01](?:_?[01])*)$/;
+const FLOAT = /^[+-]?(?:0|[1-9](?:_?\d)*)(?:\.\d(?:_?\d)*)?(?:[eE][+-]?\d(?:_?\d)*)?$/;
+const SPECIAL_FLOAT = /^[+-]?(?:inf|nan)$/;
+const DATE_TIME = /^(\d{4})-(\d{2})-(\d{2})(?:[Tt ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?(?:[Zz]|[+-](\d{2}):(\d{2}))?)?$/;
+const LOCAL_TIME = /^(\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?$/;
+
+function newTable(origin: TomlNode["origin"]): TomlNode {
+	return { kind: "table", origin, children: new Map() };
+}
+
+function formatKey(parts: string[]): string {
+	return parts.map((part) => (/^[A-Za-z0-9_-]+$/.test(part) ? part : JSON.stringify(part))).join(".");
+}
+
+/**
+ * Recursive-descent TOML parser that only checks the document
+ * Syntax errors skip to the next line; definition errors are reported where they happen
+ */
+class TomlParser {
+	private text: string;
+	private pos = 0;
+	private lineStarts: number[] = [0];
+	private root = newTable("implicit");
+	private current = this.root;
+	private errors: ValidationError[] = [];
+
+	constructor(text: string) {
+		this.text = text;
+		for (let i = 0; i < text.length; i++) {
+			if (text[i] === "\n") this.lineStarts.push(i + 1);
+		}
+	}
+
+	parse(): ValidationError[] {
+		while (this.pos < this.text.length) {
+			try {
+				this.skipWhitespace();
+				const char = this.text[this.pos];
+				if (char === "[") {
+					this.parseHeader();
+				} else if (char !== "#" && !this.atLineEnd()) {
+					this.parseKeyValue(this.current);
+				}
+				this.expectLineEnd();
+			} catch (error) {
+				if (!(error instanceof TomlSyntaxError)) throw error;
+				this.report(error.start, error.end, error.message);
+				this.skipToLineEnd();
+			}
+			this.skipNewline();
+		}
+		return this.errors;
+	}
+
+	private parseHeader(): void {
+		const start = this.pos;
+		const isArray = this.text.startsWith("[[", this.pos);
+		this.pos += isArray ? 2 : 1;
+
+		const key = this.parseKey();
+		const close = isArray ? "]]" : "]";
+		if (!this.text.startsWith(close, this.pos)) {
+			throw this.error(`Expected '${close}' to close the table header`, this.pos);
+		}
+		this.pos += close.length;
+
+		this.current = isArray ? this.defineArrayOfTables(key, start, this.pos) : this.defineTable(key, start, this.pos);
+	}
+
+	/**
+	 * Walk to the parent table of a header, creating implicit tables
+	 */
+	private findHeaderParent(key: TomlKey, start: number, end: number, header: string): TomlNode | null {
+		let table = this.root;
+		for (let i = 0; i < key.parts.length - 1; i++) {
+			let child = table.children!.get(key.parts[i]);
+			if (!child) {
+				child = newTable("implicit");
+				table.children!.set(key.parts[i], child);
+			}
+
+			const prefix = formatKey(key.parts.slice(0, i + 1));
+			if (child.kind === "tables") {
+				child = child.items![child.items!.length - 1];
+			} else if (child.kind === "value") {
+				this.report(start, end, `Cannot define ${header}: '${prefix}' already has a value`);
+				return null;
+			} else if (child.origin === "inline") {
+				this.report(start, end, `Cannot define ${header}: '${prefix}' is an inline table`);
+				return null;
+			}
+			table = child;
+		}
+		return table;
+	}
+
+	private defineTable(key: TomlKey, start: number, end: number): TomlNode {
+		const name = formatKey(key.parts);
+		const header = `table [${name}]`;
+		const parent = this.findHeaderParent(key, start, end, header);
+		// Keys after a conflicting header go into a detached table instead of cascading
+		if (!parent) return newTable("header");
+
+		const last = key.parts[key.parts.length - 1];
+		const existing = parent.children!.get(last);
+		if (!existing) {
+			const table = newTable("header");
+			parent.children!.set(last, table);
+			return table;
+		}
+		if (existing.kind === "table" && existing.origin === "implicit") {
+			existing.origin = "header";
+			return existing;
+		}
+
+		if (existing.kind === "value") {
+			this.report(start, end, `Cannot define ${header}: '${name}' already has a value`);
+		} else if (existing.kind === "tables") {
+			this.report(start, end, `Cannot define ${header}: '${name}' is an array of tables`);
+		} else if (existing.origin === "dotted") {
+			this.report(start, end, `Table [${name}] is already defined by dotted keys`);
+		} else if (existing.origin === "inline") {
+			this.report(start, end, `Table [${name}] is already defined as an inline table`);
+		} else {
+			this.report(start, end, `Table [${name}] is already defined`);
+		}
+		return newTable("header");
+	}
+
+	private defineArrayOfTables(key: TomlKey, start: number, end: number): TomlNode {
+		const name = formatKey(key.parts);
+		const parent = this.findHeaderParent(key, start, end, `array of tables [[${name}]]`);
+		if (!parent) return newTable("header");
+
+		const last = key.parts[key.parts.length - 1];
+		const existing = parent.children!.get(last);
+		const item = newTable("header");
+		if (!existing) {
+			parent.children!.set(last, { kind: "tables", items: [item] });
+		} else if (existing.kind === "tables") {
+			existing.items!.push(item);
+		} else if (existing.kind === "value" && existing.isArray) {
+			this.report(start, end, `Cannot append to static array '${name}'`);
+		} else if (existing.kind === "value") {
+			this.report(start, end, `Cannot define array of tables [[${name}]]: '${name}' already has a value`);
+		} else {
+			this.report(start, end, `Cannot define array of tables [[${name}]]: [${name}] is already a table`);
+		}
+		return item;
+	}
+
+	private parseKeyValue(table: TomlNode): void {
+		const key = this.parseKey();
+		if (this.text[this.pos] !== "=") {
+			throw this.error(`Expected '=' after the key '${formatKey(key.parts)}'`, this.pos);
+		}
+		this.pos++;
+		this.skipWhitespace();
+
+		const value = this.parseValue();
+		this.assign(table, key, value);
+	}
+
+	/**
+	 * Set a (dotted) key in a table; dotted keys create tables that only dotted keys may extend
+	 */
+	private assign(table: TomlNode, key: TomlKey, value: TomlNode): void {
+		let target = table;
+		for (let i = 0; i < key.parts.length - 1; i++) {
+			const prefix = formatKey(key.parts.slice(0, i + 1));
+			let child = target.children!.get(key.parts[i]);
+			if (!child) {
+				child = newTable("dotted");
+				target.children!.set(key.parts[i], child);
+			} else if (child.kind === "value") {
+				this.report(key.start, key.end, `Cannot add keys to '${prefix}': it already has a value`);
+				return;
+			} else if (child.kind !== "table" || child.origin !== "dotted") {
+				const reason = child.origin === "inline" ? "inline tables cannot be extended" : "it is already defined as a table";
+				this.report(key.start, key.end, `Cannot add keys to '${prefix}' with dotted keys: ${reason}`);
+				return;
+			}
+			target = child;
+		}
+
+		const last = key.parts[key.parts.length - 1];
+		if (target.children!.has(last)) {
+			this.report(key.start, key.end, `Duplicate key '${formatKey(key.parts)}'`);
+			return;
+		}
+		target.children!.set(last, value);
+	}
+
+	private parseKey(): TomlKey {
+		const parts: string[] = [];
+		this.skipWhitespace();
+		const start = this.pos;
+		let end = start;
+
+		for (;;) {
+			parts.push(this.parseSimpleKey());
+			end = this.pos;
+			this.skipWhitespace();
+			if (this.text[this.pos] !== ".") break;
+			this.pos++;
+			this.skipWhitespace();
+		}
+		return { parts, start, end };
+	}
+
+	private parseSimpleKey(): string {
+		const char = this.text[this.pos];
+		if (this.text.startsWith('"""', this.pos) || this.text.startsWith("'''", this.pos)) {
+			throw this.error("Multi-line strings cannot be used as keys", this.pos, this.pos + 3);
+		}
+		if (char === '"') return this.parseBasicString();
+		if (char === "'") return this.parseLiteralString();
+
+		BARE_KEY.lastIndex = this.pos;
+		const match = BARE_KEY.exec(this.text);
+		if (!match) {
+			const message = this.atLineEnd() || char === "=" ? "Expected a key" : `Invalid character '${char}' in key`;
+			throw this.error(message, this.pos);
+		}
+		this.pos += match[0].length;
+		return match[0];
+	}
+
+	private parseValue(): TomlNode {
+		const start = this.pos;
+		const char = this.text[this.pos];
+
+		if (this.text.startsWith('"""', start)) {
+			this.parseMultilineString('"""');
+		} else if (this.text.startsWith("'''", start)) {
+			this.parseMultilineString("'''");
+		} else if (char === '"') {
+			this.parseBasicString();
+		} else if (char === "'") {
+			this.parseLiteralString();
+		} else if (char === "[") {
+			this.parseArray();
+			return { kind: "value", isArray: true };
+		} else if (char === "{") {
+			return this.parseInlineTable();
+		} else if (char === "#" || this.atLineEnd()) {
+			throw this.error("Expected a value", start);
+		} else {
+			this.parseScalar();
+		}
+		return { kind: "value" };
+	}
+
+	private parseScalar(): void {
+		const start = this.pos;
+		SCALAR.lastIndex = start;
+		let token = SCALAR.exec(this.text)![0];
+
+		// A date and time may be separated by a space
+		if (/^\d{4}-\d{2}-\d{2}$/.test(token) && /^ \d{2}:/.test(this.text.substring(start + token.length, start + token.length + 4))) {
+			SCALAR.lastIndex = start + token.length + 1;
+			token += " " + SCALAR.exec(this.text)![0];
+		}
+		this.pos = start + token.length;
+		const end = this.pos;
+
+		if (token === "true" || token === "false" || SPECIAL_FLOAT.test(token)) return;
+		if (PREFIXED_INTEGER.test(token) || INTEGER.test(token)) return;
+		if (/^[+-]?0\d/.test(token) && /^[+-]?[\d_]+$/.test(token)) {
+			this.report(start, end, `Leading zeros are not allowed in integers: '${token}'`);
+			return;
+		}
+		if (FLOAT.test(token)) return;
+
+		if (/^\d{4}-\d{2}-\d{2}/.test(token) || /^\d{2}:\d{2}/.test(token)) {
+			const problem = checkDateTime(token);
+			if (problem) this.report(start, end, `Invalid date-time '${token}': ${problem}`);
+			return;
+		}
+		if (/^[+-]?[\d.]/.test(token)) {
+			this.report(start, end, `Invalid number '${token}'`);
+			return;
+		}
+		this.report(start, end, `Invalid value '${token}' (strings must be quoted)`);
+	}
+
+	private parseBasicString(): string {
+		const start = this.pos;
+		this.pos++;
+		while (this.pos < this.text.length) {
+			const char = this.text[this.pos];
+			if (char === '"') {
+				this.pos++;
+				return this.text.substring(start + 1, this.pos - 1);
+			}
+			if (char === "\n" || this.text.startsWith("\r\n", this.pos)) break;
+			if (char === "\\") {
+				this.parseEscape();
+				continue;
+			}
+			this.checkCharacter(char);
+			this.pos++;
+		}
+		throw this.error("Unterminated string", start, this.pos);
+	}
+
+	private parseLiteralString(): string {
+		const start = this.pos;
+		const end = this.text.indexOf("'", start + 1);
+		const lineEnd = this.lineEnd(start);
+		if (end === -1 || end > lineEnd) {
+			throw this.error("Unterminated string", start, lineEnd);
+		}
+		this.pos = end + 1;
+		return this.text.substring(start + 1, end);
+	}
+
+	private parseMultilineString(quote: string): void {
+		const start = this.pos;
+		this.pos += 3;
+		while (this.pos < this.text.length) {
+			if (this.text.startsWith(quote, this.pos)) {
+				this.pos += 3;
+				// Up to two quotes right before the closing delimiter belong to the string
+				for (let extra = 0; extra < 2 && this.text[this.pos] === quote[0]; extra++) this.pos++;
+				return;
+			}
+			const char = this.text[this.pos];
+			if (char === "\\" && quote === '"""') {
+				LINE_ENDING_BACKSLASH.lastIndex = this.pos;
+				const lineEnding = LINE_ENDING_BACKSLASH.exec(this.text);
+				if (lineEnding) {
+					this.pos += lineEnding[0].length;
+				} else {
+					this.parseEscape();
+				}
+				continue;
+			}
+			if (char !== "\n" && char !== "\r") this.checkCharacter(char);
+			this.pos++;
+		}
+		this.pos = this.text.length;
+		throw this.error("Unterminated multi-line string", start, start + 3);
+	}
+
+	private parseEscape(): void {
+		ESCAPE.lastIndex = this.pos;
+		const match = ESCAPE.exec(this.text);
+		if (match) {
+			this.pos += match[0].length;
+			return;
+		}
+		const next = this.text[this.pos + 1];
+		const length = next === undefined || next === "\n" || next === "\r" ? 1 : 2;
+		this.report(this.pos, this.pos + length, `Invalid escape sequence '${this.text.substr(this.pos, length)}'`);
+		this.pos += length;
+	}
+
+	private checkCharacter(char: string): void {
+		if (CONTROL_CHARACTER.test(char)) {
+			this.report(this.pos, this.pos + 1, `Control character U+${char.charCodeAt(0).toString(16).toUpperCase().padStart(4, "0")} must be escaped`);
+		}
+	}
+
+	private parseArray(): void {
+		const start = this.pos;
+		const startLine = this.lineOf(start);
+		this.pos++;
+
+		try {
+			for (;;) {
+				this.skipWhitespaceAndNewlines();
+				if (this.text[this.pos] === "]") {
+					this.pos++;
+					return;
+				}
+				if (this.pos >= this.text.length) break;
+
+				this.parseValue();
+				this.skipWhitespaceAndNewlines();
+				if (this.text[this.pos] === ",") {
+					this.pos++;
+				} else if (this.text[this.pos] === "]") {
+					this.pos++;
+					return;
+				} else if (this.pos < this.text.length) {
+					throw this.error("Expected ',' or ']' in array", this.pos);
+				}
+			}
+		} catch (error) {
+			// An unclosed array swallows the following lines; blame the bracket
+			if (!(error instanceof TomlSyntaxError) || this.lineOf(error.start) === startLine) throw error;
+		}
+		throw this.error("Array is not closed: expected ']'", start);
+	}
+
+	private parseInlineTable(): TomlNode {
+		const start = this.pos;
+		const table = newTable("inline");
+		this.pos++;
+
+		for (;;) {
+			this.skipWhitespaceAndNewlines();
+			if (this.text[this.pos] === "}") {
+				this.pos++;
+				return table;
+			}
+			if (this.pos >= this.text.length) break;
+
+			this.parseKeyValue(table);
+			this.skipWhitespaceAndNewlines();
+			if (this.text[this.pos] === ",") {
+				this.pos++;
+			} else if (this.text[this.pos] === "}") {
+				this.pos++;
+				return table;
+			} else if (this.pos < this.text.length) {
+				throw this.error("Expected ',' or '}' in inline table", this.pos);
+			}
+		}
+		throw this.error("Inline table is not closed: expected '}'", start);
+	}
+
+	private expectLineEnd(): void {
+		this.skipWhitespace();
+		if (this.text[this.pos] === "#") {
+			this.skipToLineEnd();
+			return;
+		}
+		if (!this.atLineEnd()) {
+			throw this.error("Expected a new line after the value", this.pos, this.lineEnd(this.pos));
+		}
+	}
+
+	private atLineEnd(): boolean {
+		return this.pos >= this.text.length || this.text[this.pos] === "\n" || this.text.startsWith("\r\n", this.pos);
+	}
+
+	private lineEnd(from: number): number {
+		const newline = this.text.indexOf("\n", from);
+		if (newline === -1) return this.text.length;
+		return this.text[newline - 1] === "\r" ? newline - 1 : newline;
+	}
+
+	private skipWhitespace(): void {
+		while (this.text[this.pos] === " " || this.text[this.pos] === "\t") this.pos++;
+	}
+
+	/**
+	 * Whitespace, comments and line breaks (inside arrays and inline tables)
+	 */
+	private skipWhitespaceAndNewlines(): void {
+		for (;;) {
+			this.skipWhitespace();
+			if (this.text[this.pos] === "#") {
+				this.skipToLineEnd();
+			} else if (this.text[this.pos] === "\n" || this.text.startsWith("\r\n", this.pos)) {
+				this.skipNewline();
+			} else {
+				return;
+			}
+		}
+	}
+
+	private skipToLineEnd(): void {
+		this.pos = Math.max(this.pos, this.lineEnd(this.pos));
+	}
+
+	private skipNewline(): void {
+		if (this.text.startsWith("\r\n", this.pos)) this.pos += 2;
+		else if (this.text[this.pos] === "\n") this.pos++;
+	}
+
+	private error(message: string, start: number, end = start + 1): TomlSyntaxError {
+		return new TomlSyntaxError(message, start, end);
+	}
+
+	private lineOf(offset: number): number {
+		let low = 0;
+		let high = this.lineStarts.length - 1;
+		while (low < high) {
+			const middle = (low + high + 1) >> 1;
+			if (this.lineStarts[middle] <= offset) low = middle;
+			else high = middle - 1;
+		}
+		return low;
+	}
+
+	private report(start: number, end: number, message: string): void {
+		const line = this.lineOf(start);
+		const endLine = this.lineOf(Math.max(end, start + 1) - 1);
+		this.errors.push({
+			line: line + 1,
+			column: start - this.lineStarts[line] + 1,
+			endLine: endLine + 1,
+			endColumn: Math.max(end, start + 1) - this.lineStarts[endLine] + 1,
+			message,
+			severity: "error",
+		});
+	}
+}
+
+/**
+ * Range problems in a date-time, date or time that has the right shape; null when valid
+ */
+function checkDateTime(value: string): string | null {
+	const dateTime = value.match(DATE_TIME);
+	const time = dateTime ? null : value.match(LOCAL_TIME);
+	if (!dateTime && !time) return "expected YYYY-MM-DD, HH:MM:SS or both";
+
+	if (dateTime) {
+		const year = Number(dateTime[1]);
+		const month = Number(dateTime[2]);
+		const day = Number(dateTime[3]);
+		if (month < 1 || month > 12) return "month must be between 01 and 12";
+		const leapYear = (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+		const daysInMonth = [31, leapYear ? 29 : 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31][month - 1];
+		if (day < 1 || day > daysInMonth) return `day must be between 01 and ${daysInMonth}`;
+		if (dateTime[7] !== undefined && (Number(dateTime[7]) > 23 || Number(dateTime[8]) > 59)) return "invalid time zone offset";
+	}
+
+	const [hour, minute, second] = dateTime ? [dateTime[4], dateTime[5], dateTime[6]] : [time![1], time![2], time![3]];
+	if (hour !== undefined && Number(hour) > 23) return "hour must be between 00 and 23";
+	if (minute !== undefined && Number(minute) > 59) return "minute must be between 00 and 59";
+	// 60 allows leap seconds
+	if (second !== undefined && Number(second) > 60) return "second must be between 00 and 60";
+	return null;
+}
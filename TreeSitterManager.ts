@@ -1,10 +1,5 @@
-import * as monaco from "monaco-editor";
 import type { TreeSitterLanguageParser } from "./settings";
-
-/**
- * Store for inline error decorations per editor
- */
-const treeSitterInlineDecorations = new WeakMap<monaco.editor.IStandaloneCodeEditor, string[]>();
+import type { DiagnosticsProvider } from "./DiagnosticsService";
 
 // Type definitions for tree-sitter
 type TreeSitterParser = any;
@@ -318,90 +313,19 @@ export class TreeSitterManager {
 	}
 	
 	/**
-	 * Validate code and display markers in Monaco editor
+	 * Syntax errors from the tree-sitter parsers, when tree-sitter is enabled
 	 */
-	static async validateAndDisplayMarkers(
-		editor: monaco.editor.IStandaloneCodeEditor,
-		language: string,
-		code: string,
-		inlineFont?: string,
-		inlineFontSize?: number
-	): Promise<void> {
-		const errors = await this.parse(language, code);
-		
-		const model = editor.getModel();
-		if (!model) return;
-		
-		// Convert tree-sitter errors to Monaco markers
-		const markers: monaco.editor.IMarkerData[] = errors.map(error => ({
-			severity: error.severity === 'error' 
-				? monaco.MarkerSeverity.Error 
-				: monaco.MarkerSeverity.Warning,
-			message: error.message,
-			startLineNumber: error.line,
-			startColumn: error.column,
-			endLineNumber: error.endLine,
-			endColumn: error.endColumn,
-			source: 'Tree-sitter'
-		}));
-		
-		console.log('Tree-sitter setting', markers.length, 'markers for', language);
-		
-		monaco.editor.setModelMarkers(model, 'tree-sitter', markers);
-		
-		// Add inline error messages using content widgets (since `after` property isn't supported in Monaco 0.45.0)
-		// First, clear previous content widgets
-		const oldWidgets = treeSitterInlineDecorations.get(editor) || [];
-		oldWidgets.forEach(widgetId => {
-			const widget = (editor as any)._contentWidgets?.[widgetId];
-			if (widget) {
-				editor.removeContentWidget(widget);
+	static readonly diagnosticsProvider: DiagnosticsProvider = {
+		id: "tree-sitter",
+		source: "Tree-sitter",
+		appliesTo: (language, settings) => settings.enableTreeSitter && language in TreeSitterManager.languageMap,
+		provideDiagnostics: async ({ language, code, settings }) => {
+			if (settings.treeSitterParsers) {
+				TreeSitterManager.setSettings(settings.treeSitterParsers);
 			}
-		});
-		
-		// Create new content widgets for each error
-		const widgetIds: string[] = [];
-		errors.forEach((error, index) => {
-			const lineContent = model.getLineContent(error.line);
-			const isError = error.severity === "error";
-			const widgetId = `tree-sitter-inline-${index}-${Date.now()}`;
-			
-			const widget = {
-				getId: () => widgetId,
-				getDomNode: () => {
-					const node = document.createElement('span');
-					node.className = isError ? 'monaco-inline-error' : 'monaco-inline-warning';
-					node.textContent = ` ⚠️ ${error.message}`;
-					node.style.opacity = '0.7';
-				node.style.fontSize = inlineFontSize ? `${inlineFontSize}px` : '12px';
-				node.style.fontFamily = inlineFont || "'Cascadia Code', 'Fira Code', Consolas, monospace";
-					node.style.fontStyle = 'italic';
-					node.style.paddingLeft = '0.75em';
-					node.style.whiteSpace = 'nowrap';
-					node.style.pointerEvents = 'none';
-					node.style.userSelect = 'none';
-					node.style.color = isError ? 'var(--text-error, #f48771)' : 'var(--text-warning, #ffa500)';
-					return node;
-				},
-				getPosition: () => ({
-					position: {
-						lineNumber: error.line,
-						column: lineContent.length + 1
-					},
-					preference: [monaco.editor.ContentWidgetPositionPreference.EXACT]
-				})
-			};
-			
-			editor.addContentWidget(widget);
-			widgetIds.push(widgetId);
-		});
-		
-		treeSitterInlineDecorations.set(editor, widgetIds);
-		
-		console.log(`[Tree-sitter] Created ${widgetIds.length} inline content widgets`);
-		
-		console.log('Tree-sitter validation completed for', language);
-	}
+			return TreeSitterManager.parse(language, code);
+		},
+	};
 	
 	/**
 	 * Clean up resources
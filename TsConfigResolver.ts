@@ -0,0 +1,200 @@
+import { App } from "obsidian";
+import { stripJsonComments } from "./VSIXThemeLoader";
+import { dirname, joinPath, VaultFileReader } from "./VaultFileReader";
+
+/**
+ * tsconfig.json / jsconfig.json resolved for a single vault file
+ */
+export interface TsConfigResult {
+	// Raw compilerOptions with `extends` applied and paths made vault-absolute
+	compilerOptions: Record<string, any>;
+	configPath: string;
+	// jsconfig.json implies allowJs
+	isJsConfig: boolean;
+}
+
+const CONFIG_FILE_NAMES = ["tsconfig.json", "jsconfig.json"];
+
+// Options whose values are paths relative to the config file that sets them
+const PATH_OPTIONS = ["baseUrl", "rootDir", "outDir", "declarationDir"];
+const PATH_LIST_OPTIONS = ["typeRoots", "rootDirs"];
+
+/**
+ * Finds the nearest tsconfig.json / jsconfig.json for a vault file by walking up
+ * its folders, and follows `extends` chains (relative paths and packages in node_modules)
+ */
+export class TsConfigResolver {
+	private reader: VaultFileReader;
+
+	constructor(app: App) {
+		this.reader = new VaultFileReader(app, "tsconfig");
+	}
+
+	async resolve(filePath: string): Promise<TsConfigResult | null> {
+		let dir = dirname(filePath);
+
+		while (true) {
+			// tsconfig.json wins over jsconfig.json in the same folder, like tsserver
+			for (const name of CONFIG_FILE_NAMES) {
+				const path = joinPath(dir, name);
+				const compilerOptions = await this.load(path, new Set());
+				if (compilerOptions) {
+					return { compilerOptions, configPath: path, isJsConfig: name === "jsconfig.json" };
+				}
+			}
+
+			if (dir === "") return null;
+			dir = dirname(dir);
+		}
+	}
+
+	/**
+	 * Forget cached file contents (after a config file changes)
+	 */
+	clearCache(): void {
+		this.reader.clear();
+	}
+
+	/**
+	 * Whether a vault path could change the resolved config of some file
+	 */
+	static isConfigFile(path: string): boolean {
+		const name = path.substring(path.lastIndexOf("/") + 1);
+		return name.endsWith(".json") && (name.startsWith("tsconfig") || name.startsWith("jsconfig"));
+	}
+
+	/**
+	 * Load a config file's compilerOptions, applying its `extends` chain first
+	 */
+	private async load(path: string, visited: Set<string>): Promise<Record<string, any> | null> {
+		if (visited.has(path)) {
+			console.warn(`tsconfig: circular extends through ${path}`);
+			return {};
+		}
+		visited.add(path);
+
+		const content = await this.reader.read(path);
+		if (content === null) return null;
+
+		let config: any;
+		try {
+			config = JSON.parse(stripTrailingCommas(stripJsonComments(content)));
+		} catch (error) {
+			console.warn(`tsconfig: could not parse ${path}:`, error);
+			return null;
+		}
+
+		let compilerOptions: Record<string, any> = {};
+		const bases = ([] as string[]).concat(config.extends ?? []);
+		for (const base of bases) {
+			const basePath = await this.resolveExtends(base, dirname(path));
+			const baseOptions = basePath ? await this.load(basePath, visited) : null;
+			if (baseOptions) {
+				compilerOptions = { ...compilerOptions, ...baseOptions };
+			} else {
+				console.warn(`tsconfig: could not resolve "${base}" extended by ${path}`);
+			}
+		}
+
+		const ownOptions = this.makePathsAbsolute(config.compilerOptions ?? {}, dirname(path));
+		return { ...compilerOptions, ...ownOptions };
+	}
+
+	/**
+	 * Resolve an `extends` value: relative paths from the config folder,
+	 * anything else as a package in the nearest node_modules
+	 */
+	private async resolveExtends(base: string, configDir: string): Promise<string | null> {
+		const withExtension = (path: string) => (path.endsWith(".json") ? path : `${path}.json`);
+
+		if (base.startsWith("./") || base.startsWith("../") || base.startsWith("/")) {
+			return withExtension(this.normalize(joinPath(configDir, base)));
+		}
+
+		let dir = configDir;
+		while (true) {
+			const packagePath = joinPath(dir, `node_modules/${base}`);
+			for (const candidate of [packagePath, withExtension(packagePath), `${packagePath}/tsconfig.json`]) {
+				if (candidate.endsWith(".json") && (await this.reader.read(candidate)) !== null) {
+					return candidate;
+				}
+			}
+
+			if (dir === "") return null;
+			dir = dirname(dir);
+		}
+	}
+
+	/**
+	 * Path options are relative to the config that sets them; store them as vault paths
+	 * `paths` entries are relative to baseUrl, or to the config folder without one
+	 */
+	private makePathsAbsolute(options: Record<string, any>, configDir: string): Record<string, any> {
+		const result = { ...options };
+
+		for (const key of PATH_OPTIONS) {
+			if (typeof result[key] === "string") {
+				result[key] = this.normalize(joinPath(configDir, result[key]));
+			}
+		}
+
+		for (const key of PATH_LIST_OPTIONS) {
+			if (Array.isArray(result[key])) {
+				result[key] = result[key].map((path: string) => this.normalize(joinPath(configDir, path)));
+			}
+		}
+
+		if (result.paths && typeof result.paths === "object") {
+			const base = typeof result.baseUrl === "string" ? result.baseUrl : configDir;
+			const paths: Record<string, string[]> = {};
+			for (const [pattern, targets] of Object.entries(result.paths)) {
+				if (Array.isArray(targets)) {
+					paths[pattern] = targets.map((target: string) => this.normalize(joinPath(base, target)));
+				}
+			}
+			result.paths = paths;
+		}
+
+		return result;
+	}
+
+	/**
+	 * Resolve `.` and `..` segments in a vault path
+	 */
+	private normalize(path: string): string {
+		const segments: string[] = [];
+		for (const segment of path.split("/")) {
+			if (segment === "" || segment === ".") continue;
+			if (segment === "..") segments.pop();
+			else segments.push(segment);
+		}
+		return segments.join("/");
+	}
+}
+
+/**
+ * tsconfig files commonly use trailing commas, which JSON.parse rejects
+ */
+function stripTrailingCommas(json: string): string {
+	let result = "";
+	let inString = false;
+
+	for (let i = 0; i < json.length; i++) {
+		const char = json[i];
+		if (inString) {
+			result += char;
+			if (char === "\\") result += json[++i] ?? "";
+			else if (char === '"') inString = false;
+			continue;
+		}
+		if (char === '"') inString = true;
+		if (char === ",") {
+			let next = i + 1;
+			while (next < json.length && /\s/.test(json[next])) next++;
+			if (json[next] === "}" || json[next] === "]") continue;
+		}
+		result += char;
+	}
+
+	return result;
+}
@@ -6,7 +6,7 @@ import { VSCodeTheme } from "./ThemeManager";
  * Strip comments and trailing commas from JSON to make it parseable
  * Handles comments only outside of string values to avoid breaking JSON structure
  */
-function stripJsonComments(jsonString: string): string {
+export function stripJsonComments(jsonString: string): string {
 	let result = '';
 	let inString = false;
 	let inSingleLineComment = false;
@@ -0,0 +1,60 @@
+import { App } from "obsidian";
+
+// How long a read (or a missing file) is reused
+const CACHE_TTL = 2000;
+
+/**
+ * Reads vault files through the adapter, which also sees files the vault does not index
+ * (dotfiles, node_modules); results are cached briefly so repeated lookups don't hit the disk
+ */
+export class VaultFileReader {
+	private cache = new Map<string, { time: number; content: string | null }>();
+
+	// `label` prefixes the read failure warnings
+	constructor(private app: App, private label: string) {}
+
+	/**
+	 * Content of a vault file, or null when it does not exist or cannot be read
+	 */
+	async read(path: string): Promise<string | null> {
+		const cached = this.cache.get(path);
+		if (cached && Date.now() - cached.time < CACHE_TTL) {
+			return cached.content;
+		}
+
+		let content: string | null = null;
+		try {
+			if (await this.app.vault.adapter.exists(path)) {
+				content = await this.app.vault.adapter.read(path);
+			}
+		} catch (error) {
+			console.warn(`${this.label}: could not read ${path}:`, error);
+		}
+
+		this.cache.set(path, { time: Date.now(), content });
+		return content;
+	}
+
+	/**
+	 * Forget cached file contents
+	 */
+	clear(): void {
+		this.cache.clear();
+	}
+}
+
+/**
+ * Parent folder of a vault path ("" for the vault root)
+ */
+export function dirname(path: string): string {
+	const index = path.lastIndexOf("/");
+	return index === -1 ? "" : path.substring(0, index);
+}
+
+/**
+ * Join a vault folder and a relative path; paths starting with "/" are taken as they are
+ */
+export function joinPath(dir: string, name: string): string {
+	if (name.startsWith("/")) return name;
+	return dir ? `${dir}/${name}` : name;
+}
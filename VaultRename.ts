@@ -0,0 +1,274 @@
+import { Notice, TFile } from "obsidian";
+import * as monaco from "monaco-editor";
+import type MonacoPrettierPlugin from "./main";
+import { computeMinimalEdits } from "./TextEdits";
+import { uriToVaultPath } from "./VaultUri";
+import { RenamePreviewModal } from "./RenamePreviewModal";
+
+/**
+ * One occurrence of the renamed symbol
+ */
+export interface RenameOccurrence {
+	start: number;
+	end: number;
+	// Text TypeScript adds around the new name (e.g. `foo: ` for a shorthand property)
+	prefixText: string;
+	suffixText: string;
+}
+
+/**
+ * Occurrences of the renamed symbol in one vault file
+ */
+export interface RenameFilePlan {
+	file: TFile;
+	model: monaco.editor.ITextModel;
+	// Model version the occurrences were computed against
+	versionId: number;
+	occurrences: RenameOccurrence[];
+}
+
+/**
+ * A changed line, for previews
+ */
+export interface RenamePreviewLine {
+	lineNumber: number;
+	before: string;
+	after: string;
+}
+
+// Snapshot of a renamed file, used to roll back and to undo
+interface AppliedRename {
+	plan: RenameFilePlan;
+	originalText: string;
+	newText: string;
+}
+
+/**
+ * Rename a TypeScript/JavaScript symbol in every vault file that references it
+ * Occurrences come from the language service (all synced vault files and open editors),
+ * are previewed per file and line, and written to every file or none
+ */
+export class VaultRename {
+	/**
+	 * Ask for the new name of the symbol at the cursor, preview and apply the rename
+	 * Returns false when the language service does not handle the model or fails,
+	 * so the caller can fall back to Monaco's single-file rename
+	 */
+	static async start(plugin: MonacoPrettierPlugin, editor: monaco.editor.ICodeEditor): Promise<boolean> {
+		const model = editor.getModel();
+		const position = editor.getPosition();
+		if (!model || !position) return false;
+
+		const fileName = model.uri.toString();
+		const offset = model.getOffsetAt(position);
+
+		let info: any;
+		let locations: readonly any[];
+		try {
+			const worker = await this.getWorker(model);
+			if (!worker) return false;
+
+			info = await worker.getRenameInfo(fileName, offset, { allowRenameOfImportPath: false });
+			if (!info?.canRename) {
+				new Notice(info?.localizedErrorMessage ?? "This element cannot be renamed");
+				return true;
+			}
+
+			locations = await worker.findRenameLocations(fileName, offset, false, false, true) ?? [];
+		} catch (error) {
+			console.error("Vault rename: the TypeScript service failed:", error);
+			new Notice(`Vault-wide rename failed (${(error as Error).message}), renaming in this file only`);
+			return false;
+		}
+
+		const plans = this.createPlans(plugin, locations);
+		if (plans.length === 0) {
+			new Notice("No renameable occurrences found in the vault");
+			return true;
+		}
+
+		const currentName = model.getValueInRange(this.toRange(model, info.triggerSpan.start, info.triggerSpan.start + info.triggerSpan.length));
+		new RenamePreviewModal(plugin, currentName, plans, (newName) => this.apply(plugin, plans, newName)).open();
+		return true;
+	}
+
+	/**
+	 * Compute the new content of a file
+	 */
+	static getNewText(plan: RenameFilePlan, newName: string): string {
+		const text = plan.model.getValue();
+		let result = "";
+		let last = 0;
+		for (const occurrence of plan.occurrences) {
+			result += text.substring(last, occurrence.start) + occurrence.prefixText + newName + occurrence.suffixText;
+			last = occurrence.end;
+		}
+		return result + text.substring(last);
+	}
+
+	/**
+	 * Changed lines of a file with their content before and after the rename
+	 */
+	static getPreviewLines(plan: RenameFilePlan, newName: string): RenamePreviewLine[] {
+		const lines = new Map<number, RenameOccurrence[]>();
+		for (const occurrence of plan.occurrences) {
+			const lineNumber = plan.model.getPositionAt(occurrence.start).lineNumber;
+			lines.set(lineNumber, [...(lines.get(lineNumber) ?? []), occurrence]);
+		}
+
+		return [...lines.entries()].map(([lineNumber, occurrences]) => {
+			const before = plan.model.getLineContent(lineNumber);
+			const lineStart = plan.model.getOffsetAt({ lineNumber, column: 1 });
+			let after = "";
+			let last = 0;
+			for (const occurrence of occurrences) {
+				after += before.substring(last, occurrence.start - lineStart)
+					+ occurrence.prefixText + newName + occurrence.suffixText;
+				last = occurrence.end - lineStart;
+			}
+			return { lineNumber, before, after: after + before.substring(last) };
+		});
+	}
+
+	/**
+	 * Write the rename to every file, rolling back already written files if one fails
+	 */
+	private static async apply(plugin: MonacoPrettierPlugin, plans: RenameFilePlan[], newName: string): Promise<void> {
+		const changed = plans.filter((plan) => plan.model.isDisposed() || plan.model.getVersionId() !== plan.versionId);
+		if (changed.length > 0) {
+			new Notice(`Rename cancelled: ${changed.map((plan) => plan.file.name).join(", ")} changed since the preview`);
+			return;
+		}
+
+		const applied: AppliedRename[] = [];
+		try {
+			for (const plan of plans) {
+				const originalText = plan.model.getValue();
+				const newText = this.getNewText(plan, newName);
+				await this.writeFile(plugin, plan, newText);
+				applied.push({ plan, originalText, newText });
+			}
+		} catch (error) {
+			console.error("Rename: failed to write files, rolling back:", error);
+			for (const rename of applied.reverse()) {
+				await this.writeFile(plugin, rename.plan, rename.originalText).catch((rollbackError) => {
+					console.error(`Rename: could not roll back ${rename.plan.file.path}:`, rollbackError);
+				});
+			}
+			new Notice(`Rename failed: ${error instanceof Error ? error.message : String(error)}`);
+			return;
+		}
+
+		const occurrences = plans.reduce((count, plan) => count + plan.occurrences.length, 0);
+		this.showUndoNotice(plugin, applied, `Renamed ${occurrences} occurrence(s) in ${plans.length} file(s)`);
+	}
+
+	/**
+	 * Notice with an Undo button restoring every renamed file
+	 */
+	private static showUndoNotice(plugin: MonacoPrettierPlugin, applied: AppliedRename[], message: string): void {
+		const fragment = createFragment();
+		fragment.createSpan({ text: `${message} ` });
+		const undoButton = fragment.createEl("button", { text: "Undo" });
+
+		const notice = new Notice(fragment, 15000);
+		undoButton.addEventListener("click", async (event) => {
+			event.stopPropagation();
+			notice.hide();
+
+			// Files edited after the rename are left alone
+			const skipped: string[] = [];
+			for (const rename of applied) {
+				if (rename.plan.model.isDisposed() || rename.plan.model.getValue() !== rename.newText) {
+					skipped.push(rename.plan.file.name);
+					continue;
+				}
+				try {
+					await this.writeFile(plugin, rename.plan, rename.originalText);
+				} catch (error) {
+					console.error(`Rename: could not undo ${rename.plan.file.path}:`, error);
+					skipped.push(rename.plan.file.name);
+				}
+			}
+
+			new Notice(skipped.length > 0
+				? `Rename undone except in ${skipped.join(", ")} (changed since)`
+				: "Rename undone");
+		});
+	}
+
+	/**
+	 * Files open in an editor are edited through their model (undoable, saved by the view);
+	 * other files are written to the vault, which the vault TypeScript project picks up
+	 */
+	private static async writeFile(plugin: MonacoPrettierPlugin, plan: RenameFilePlan, text: string): Promise<void> {
+		const isOpen = monaco.editor.getEditors().some((editor) => editor.getModel() === plan.model);
+		if (isOpen) {
+			const edits = computeMinimalEdits(plan.model, text);
+			plan.model.pushStackElement();
+			plan.model.pushEditOperations([], edits.map((edit) => ({ range: edit.range, text: edit.text })), () => null);
+			plan.model.pushStackElement();
+			return;
+		}
+
+		await plugin.app.vault.modify(plan.file, text);
+		// Keep the model in step right away so undo and later renames see the new content
+		if (!plan.model.isDisposed() && plan.model.getValue() !== text) {
+			plan.model.setValue(text);
+		}
+	}
+
+	/**
+	 * Group rename locations by vault file; locations outside the vault (libraries) are skipped
+	 */
+	private static createPlans(plugin: MonacoPrettierPlugin, locations: readonly any[]): RenameFilePlan[] {
+		const plans = new Map<string, RenameFilePlan>();
+
+		for (const location of locations) {
+			const uri = monaco.Uri.parse(location.fileName);
+			const path = uriToVaultPath(uri);
+			const file = path !== null ? plugin.app.vault.getAbstractFileByPath(path) : null;
+			const model = monaco.editor.getModel(uri);
+			if (!(file instanceof TFile) || !model) {
+				console.warn("Rename: skipping location outside the vault:", location.fileName);
+				continue;
+			}
+
+			let plan = plans.get(file.path);
+			if (!plan) {
+				plan = { file, model, versionId: model.getVersionId(), occurrences: [] };
+				plans.set(file.path, plan);
+			}
+			plan.occurrences.push({
+				start: location.textSpan.start,
+				end: location.textSpan.start + location.textSpan.length,
+				prefixText: location.prefixText ?? "",
+				suffixText: location.suffixText ?? "",
+			});
+		}
+
+		for (const plan of plans.values()) {
+			plan.occurrences.sort((a, b) => a.start - b.start);
+		}
+		return [...plans.values()];
+	}
+
+	private static async getWorker(model: monaco.editor.ITextModel): Promise<monaco.languages.typescript.TypeScriptWorker | null> {
+		const language = model.getLanguageId();
+		try {
+			if (language === "typescript") {
+				return (await monaco.languages.typescript.getTypeScriptWorker())(model.uri);
+			}
+			if (language === "javascript") {
+				return (await monaco.languages.typescript.getJavaScriptWorker())(model.uri);
+			}
+		} catch (error) {
+			console.error("Rename: TypeScript worker unavailable:", error);
+		}
+		return null;
+	}
+
+	private static toRange(model: monaco.editor.ITextModel, start: number, end: number): monaco.Range {
+		return monaco.Range.fromPositions(model.getPositionAt(start), model.getPositionAt(end));
+	}
+}
@@ -0,0 +1,150 @@
+import { App, EventRef, TAbstractFile, TFile } from "obsidian";
+import * as monaco from "monaco-editor";
+import type MonacoPrettierPlugin from "./main";
+import { vaultPathToUri } from "./VaultUri";
+
+// Extensions synced into the TypeScript / JavaScript language services
+const TYPESCRIPT_EXTENSIONS = ["ts", "tsx", "mts", "cts"];
+const JAVASCRIPT_EXTENSIONS = ["js", "jsx", "mjs", "cjs"];
+
+// Keep the language service responsive in large vaults
+const MAX_FILE_SIZE = 512 * 1024;
+const MAX_FILES = 2000;
+
+/**
+ * Mirrors vault TypeScript/JavaScript files into Monaco models (file:// URIs matching
+ * vault paths) so relative imports, completion, go-to-definition and semantic errors
+ * work across files, like a project in VS Code
+ */
+export class VaultTypeScriptSync {
+	private app: App;
+	private plugin: MonacoPrettierPlugin;
+	private eventRefs: EventRef[] = [];
+	// Vault paths of the models this class created
+	private syncedPaths = new Set<string>();
+	// .d.ts files are also shared with the JavaScript service as extra libs
+	private declarationLibs = new Map<string, monaco.IDisposable>();
+	private running = false;
+
+	constructor(app: App, plugin: MonacoPrettierPlugin) {
+		this.app = app;
+		this.plugin = plugin;
+	}
+
+	/**
+	 * Sync every matching vault file and follow vault changes
+	 */
+	async start(): Promise<void> {
+		if (this.running) return;
+		this.running = true;
+
+		// Let the workers see models that are not open in an editor
+		monaco.languages.typescript.typescriptDefaults.setEagerModelSync(true);
+		monaco.languages.typescript.javascriptDefaults.setEagerModelSync(true);
+
+		const vault = this.app.vault;
+		this.eventRefs = [
+			vault.on("create", (file) => this.onCreateOrModify(file)),
+			vault.on("modify", (file) => this.onCreateOrModify(file)),
+			vault.on("delete", (file) => this.remove(file.path)),
+			vault.on("rename", (file, oldPath) => {
+				this.remove(oldPath);
+				this.onCreateOrModify(file);
+			}),
+		];
+
+		const files = vault.getFiles().filter((file) => this.shouldSync(file));
+		if (files.length > MAX_FILES) {
+			console.warn(`VaultTypeScriptSync: ${files.length} files found, only the first ${MAX_FILES} are synced`);
+		}
+
+		for (const file of files.slice(0, MAX_FILES)) {
+			if (!this.running) return;
+			await this.sync(file);
+		}
+
+		console.log(`VaultTypeScriptSync: synced ${this.syncedPaths.size} files`);
+	}
+
+	/**
+	 * Stop following the vault and dispose models that no editor shows
+	 */
+	stop(): void {
+		if (!this.running) return;
+		this.running = false;
+
+		for (const ref of this.eventRefs) {
+			this.app.vault.offref(ref);
+		}
+		this.eventRefs = [];
+
+		for (const path of [...this.syncedPaths]) {
+			this.remove(path);
+		}
+
+		monaco.languages.typescript.typescriptDefaults.setEagerModelSync(false);
+		monaco.languages.typescript.javascriptDefaults.setEagerModelSync(false);
+	}
+
+	/**
+	 * Whether a model belongs to the synced project (editors must not dispose it)
+	 */
+	isSynced(model: monaco.editor.ITextModel): boolean {
+		return this.syncedPaths.has(model.uri.path.replace(/^\//, ""));
+	}
+
+	private shouldSync(file: TFile): boolean {
+		if (file.stat.size > MAX_FILE_SIZE) return false;
+		if (file.path.split("/").includes("node_modules") && !file.path.endsWith(".d.ts")) return false;
+		return TYPESCRIPT_EXTENSIONS.includes(file.extension) || JAVASCRIPT_EXTENSIONS.includes(file.extension);
+	}
+
+	private onCreateOrModify(file: TAbstractFile): void {
+		if (file instanceof TFile && this.shouldSync(file)) {
+			this.sync(file);
+		}
+	}
+
+	/**
+	 * Create or update the model for a vault file
+	 * Models shown in an editor are owned by that editor and left alone
+	 */
+	private async sync(file: TFile): Promise<void> {
+		const content = await this.app.vault.cachedRead(file);
+		if (!this.running) return;
+
+		const uri = vaultPathToUri(file.path);
+		const existing = monaco.editor.getModel(uri);
+
+		if (existing) {
+			const isOpen = monaco.editor.getEditors().some((editor) => editor.getModel() === existing);
+			if (!isOpen && existing.getValue() !== content) {
+				existing.setValue(content);
+			}
+		} else {
+			const language = TYPESCRIPT_EXTENSIONS.includes(file.extension) ? "typescript" : "javascript";
+			monaco.editor.createModel(content, language, uri);
+		}
+		this.syncedPaths.add(file.path);
+
+		if (file.path.endsWith(".d.ts")) {
+			this.declarationLibs.get(file.path)?.dispose();
+			this.declarationLibs.set(
+				file.path,
+				monaco.languages.typescript.javascriptDefaults.addExtraLib(content, uri.toString())
+			);
+		}
+	}
+
+	private remove(path: string): void {
+		if (!this.syncedPaths.delete(path)) return;
+
+		this.declarationLibs.get(path)?.dispose();
+		this.declarationLibs.delete(path);
+
+		const model = monaco.editor.getModel(vaultPathToUri(path));
+		if (model && !monaco.editor.getEditors().some((editor) => editor.getModel() === model)) {
+			model.dispose();
+		}
+	}
+}
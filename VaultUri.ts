@@ -0,0 +1,34 @@
+import * as monaco from "monaco-editor";
+
+/**
+ * Mapping between vault-relative paths and Monaco model URIs
+ * Vault files are represented as `file:///<vault path>` so language services
+ * and providers can recover the file a model belongs to
+ */
+
+export function vaultPathToUri(path: string): monaco.Uri {
+	return monaco.Uri.file(path);
+}
+
+/**
+ * Get the vault path for a model URI, or null for models that are not vault files
+ */
+export function uriToVaultPath(uri: monaco.Uri): string | null {
+	if (uri.scheme !== "file") return null;
+	return uri.path.replace(/^\//, "");
+}
+
+/**
+ * Resolve a path relative to a vault folder ("/" starts at the vault root),
+ * collapsing `.` and `..` segments
+ */
+export function resolveVaultPath(fromDir: string, path: string): string {
+	const segments: string[] = [];
+	const joined = path.startsWith("/") ? path : `${fromDir}/${path}`;
+	for (const segment of joined.split("/")) {
+		if (segment === "" || segment === ".") continue;
+		if (segment === "..") segments.pop();
+		else segments.push(segment);
+	}
+	return segments.join("/");
+}
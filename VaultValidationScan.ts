@@ -0,0 +1,211 @@
+import { Notice, TFile } from "obsidian";
+import * as monaco from "monaco-editor";
+import MonacoPrettierPlugin from "./main";
+import { DiagnosticsService } from "./DiagnosticsService";
+import type { CollectedDiagnostic } from "./DiagnosticsService";
+import { LanguageDetector } from "./LanguageDetector";
+import { matchesAnyGlob } from "./GlobMatcher";
+import { MonacoPrettierView } from "./MonacoView";
+import { ProblemsView } from "./ProblemsView";
+import type { ProblemGroup } from "./ProblemsView";
+import { vaultPathToUri } from "./VaultUri";
+
+export type ScanOutput = "panel" | "report";
+
+// Report note, overwritten by every scan
+const REPORT_PATH = "Validation report.md";
+// Frontmatter key marking a note as written by the scan; other notes at REPORT_PATH are never overwritten
+const REPORT_MARKER = "monaco-prettier-validation-report";
+// Larger files are skipped to keep the scan responsive
+const MAX_FILE_SIZE = 1024 * 1024;
+// Protocol action of the report's line links
+export const OPEN_AT_LINE_ACTION = "monaco-prettier-open";
+
+interface FileResult {
+	file: TFile;
+	diagnostics: CollectedDiagnostic[];
+}
+
+/**
+ * Runs the diagnostics providers headlessly over every code file in the vault
+ * and lists the results in the Problems view or in a markdown report note
+ */
+export class VaultValidationScan {
+	private running = false;
+	private languageDetector = new LanguageDetector();
+	private scratchModels = 0;
+
+	constructor(private plugin: MonacoPrettierPlugin) {}
+
+	/**
+	 * Files with a code extension that pass the include/exclude globs
+	 */
+	getFiles(): TFile[] {
+		const { fileExtensions, validationScanInclude, validationScanExclude } = this.plugin.settings;
+		return this.plugin.app.vault.getFiles()
+			.filter((file) => fileExtensions.includes(file.extension))
+			.filter((file) => validationScanInclude.length === 0 || matchesAnyGlob(file.path, validationScanInclude))
+			.filter((file) => !matchesAnyGlob(file.path, validationScanExclude))
+			.sort((a, b) => a.path.localeCompare(b.path));
+	}
+
+	async run(output: ScanOutput): Promise<void> {
+		if (this.running) {
+			new Notice("A vault validation scan is already running");
+			return;
+		}
+		this.running = true;
+
+		const files = this.getFiles();
+		const progress = new Notice(`Validating ${files.length} file(s)...`, 0);
+		const results: FileResult[] = [];
+		let skipped = 0;
+
+		try {
+			for (let index = 0; index < files.length; index++) {
+				const file = files[index];
+				progress.setMessage(`Validating files: ${index + 1}/${files.length}\n${file.path}`);
+
+				if (file.stat.size > MAX_FILE_SIZE) {
+					console.log(`Vault scan: skipped ${file.path} (${file.stat.size} bytes)`);
+					skipped++;
+					continue;
+				}
+
+				try {
+					const diagnostics = await this.validateFile(file);
+					if (diagnostics.length > 0) results.push({ file, diagnostics });
+				} catch (error) {
+					console.warn(`Vault scan: failed to validate ${file.path}:`, error);
+					skipped++;
+				}
+
+				// Let the progress notice and the editor repaint
+				await new Promise((resolve) => window.setTimeout(resolve, 0));
+			}
+		} finally {
+			progress.hide();
+			this.running = false;
+		}
+
+		const problems = results.reduce((count, result) => count + result.diagnostics.length, 0);
+		const skippedText = skipped > 0 ? `, ${skipped} skipped` : "";
+		new Notice(`Validated ${files.length} file(s): ${problems} problem(s) in ${results.length} file(s)${skippedText}`);
+
+		if (output === "report") {
+			await this.writeReport(results, files.length);
+		} else {
+			ProblemsView.setScanResults(results.map((result) => this.toProblemGroup(result)));
+			await ProblemsView.open(this.plugin);
+		}
+	}
+
+	/**
+	 * Validate the saved content, or the open editor's content when the file is open
+	 */
+	private async validateFile(file: TFile): Promise<CollectedDiagnostic[]> {
+		const uri = vaultPathToUri(file.path);
+		const openModel = monaco.editor.getModel(uri);
+		const code = openModel ? openModel.getValue() : await this.plugin.app.vault.cachedRead(file);
+		const language = this.plugin.settings.autoDetectLanguage
+			? this.languageDetector.getLanguageFromExtension(file.extension, code)
+			: this.languageDetector.getLanguageFromExtension(file.extension);
+
+		// A scratch model under its own URI, so an editor opening the file meanwhile never picks it up;
+		// plain text keeps Monaco's language workers and the schema manager away from it
+		const model = openModel ?? monaco.editor.createModel(code, "plaintext", monaco.Uri.from({
+			scheme: "inmemory",
+			path: `/vault-scan/${++this.scratchModels}/${file.name}`,
+		}));
+		try {
+			return await DiagnosticsService.collect(model, file.path, language, code, this.plugin.settings);
+		} finally {
+			if (!openModel) model.dispose();
+		}
+	}
+
+	private toProblemGroup({ file, diagnostics }: FileResult): ProblemGroup {
+		return {
+			title: file.path,
+			problems: diagnostics.map((diagnostic) => ({
+				line: diagnostic.line,
+				column: diagnostic.column,
+				endLine: diagnostic.endLine ?? diagnostic.line,
+				endColumn: diagnostic.endColumn ?? diagnostic.column + 1,
+				message: diagnostic.message,
+				severity: diagnostic.severity,
+				source: diagnostic.source,
+				code: diagnostic.code,
+			})),
+			reveal: (problem) => MonacoPrettierView.openAt(this.plugin, file, {
+				startLineNumber: problem.line,
+				startColumn: problem.column,
+				endLineNumber: problem.endLine,
+				endColumn: problem.endColumn,
+			}),
+		};
+	}
+
+	/**
+	 * Write the results to the report note (links open each file at the problem's line) and open it
+	 */
+	private async writeReport(results: FileResult[], scanned: number): Promise<void> {
+		const { vault, workspace } = this.plugin.app;
+		const errors = results.reduce((count, result) => count + result.diagnostics.filter((d) => d.severity === "error").length, 0);
+		const warnings = results.reduce((count, result) => count + result.diagnostics.filter((d) => d.severity === "warning").length, 0);
+
+		const lines = [
+			"---",
+			`${REPORT_MARKER}: true`,
+			"---",
+			"",
+			"# Validation report",
+			"",
+			`Scanned ${scanned} file(s) on ${new Date().toLocaleString()}: ${errors} error(s) and ${warnings} warning(s) in ${results.length} file(s).`,
+		];
+		if (results.length === 0) {
+			lines.push("", "No problems found.");
+		}
+
+		for (const { file, diagnostics } of results) {
+			lines.push("", `## [[${file.path}]]`, "");
+			for (const diagnostic of diagnostics) {
+				const params = new URLSearchParams({
+					vault: vault.getName(),
+					file: file.path,
+					line: String(diagnostic.line),
+					column: String(diagnostic.column),
+				});
+				const icon = diagnostic.severity === "error" ? "❌" : "⚠️";
+				const source = diagnostic.code ? `${diagnostic.source} ${diagnostic.code}` : diagnostic.source;
+				const message = diagnostic.message.replace(/\s*\n\s*/g, " ").replace(/([[\]|*_`<>])/g, "\\$1");
+				lines.push(`- ${icon} [Line ${diagnostic.line}, column ${diagnostic.column}](obsidian://${OPEN_AT_LINE_ACTION}?${params.toString().replace(/\+/g, "%20")}) ${message} (${source})`);
+			}
+		}
+
+		const content = lines.join("\n") + "\n";
+		let report = vault.getAbstractFileByPath(REPORT_PATH);
+		if (report instanceof TFile) {
+			if (!this.isReport(await vault.read(report))) {
+				new Notice(`"${REPORT_PATH}" is a note that was not written by a validation scan. Rename or move it, then run the scan again.`, 10000);
+				return;
+			}
+			await vault.modify(report, content);
+		} else if (report) {
+			new Notice(`"${REPORT_PATH}" is a folder. Rename or move it, then run the scan again.`, 10000);
+			return;
+		} else {
+			report = await vault.create(REPORT_PATH, content);
+		}
+
+		await workspace.getLeaf("tab").openFile(report as TFile);
+	}
+
+	/**
+	 * Whether a note's frontmatter carries the report marker
+	 */
+	private isReport(content: string): boolean {
+		const frontmatter = content.match(/^---\r?\n([\s\S]*?)\r?\n---/);
+		return !!frontmatter && new RegExp(`^${REPORT_MARKER}:\\s*true\\s*$`, "m").test(frontmatter[1]);
+	}
+}
@@ -0,0 +1,530 @@
+import * as monaco from "monaco-editor";
+import type { ValidationError } from "./ValidationManager";
+import type { MonacoPrettierSettings } from "./settings";
+
+interface XmlTag {
+	name: string;
+	kind: "start" | "end" | "empty";
+	// Offsets of the whole tag and of its name
+	start: number;
+	end: number;
+	nameStart: number;
+	nameEnd: number;
+}
+
+interface XmlText {
+	start: number;
+	end: number;
+}
+
+interface XmlProblem {
+	start: number;
+	end: number;
+	message: string;
+	severity: ValidationError["severity"];
+}
+
+interface XmlElement {
+	open: XmlTag;
+	close: XmlTag | null;
+	// End offset (the close tag's end, or where the element was implicitly closed)
+	end: number;
+	children: XmlElement[];
+}
+
+interface XmlTree {
+	roots: XmlElement[];
+	// Elements still open at the end of the scanned text, innermost last
+	open: XmlElement[];
+	// Elements closed implicitly by an ancestor's end tag or the end of the document
+	unclosed: XmlElement[];
+	// End tags without a matching open element
+	stray: { tag: XmlTag; expected: XmlElement | null }[];
+}
+
+const NAME = /[A-Za-z_:\u00C0-\uFFEF][\w.:\-\u00B7\u00C0-\uFFEF]*/y;
+const ATTRIBUTE_NAME = /[^\s=>\/<"']+/y;
+const PREDEFINED_ENTITIES = ["amp", "lt", "gt", "quot", "apos"];
+const HTML_VOID_ELEMENTS = new Set(["area", "base", "br", "col", "embed", "hr", "img", "input", "link", "meta", "param", "source", "track", "wbr"]);
+// HTML elements whose content is not markup
+const HTML_RAW_TEXT_ELEMENTS = new Set(["script", "style"]);
+
+/**
+ * XML well-formedness validation, and tag editing for XML and HTML:
+ * closing tags inserted on `>` and `</`, linked renaming of tag pairs, and an element outline
+ */
+export class XmlLanguage {
+	/**
+	 * Report mismatched and unclosed tags, attribute syntax, duplicate attributes and invalid entities
+	 */
+	static validate(code: string): ValidationError[] {
+		const { tags, texts, problems } = scan(code, false);
+		const tree = buildTree(tags, false);
+
+		for (const element of tree.unclosed) {
+			const tag = element.open;
+			problems.push({ start: tag.nameStart - 1, end: tag.nameEnd, message: `Element '<${tag.name}>' is not closed`, severity: "error" });
+		}
+		for (const { tag, expected } of tree.stray) {
+			const message = expected
+				? `Closing tag '</${tag.name}>' does not match '<${expected.open.name}>'`
+				: `Closing tag '</${tag.name}>' has no matching opening tag`;
+			problems.push({ start: tag.start, end: tag.end, message, severity: "error" });
+		}
+
+		tree.roots.slice(1).forEach((root) => {
+			problems.push({ start: root.open.nameStart - 1, end: root.open.nameEnd, message: "Only one root element is allowed", severity: "error" });
+		});
+
+		for (const text of texts) {
+			const insideRoot = tree.roots.some((root) => text.start >= root.open.end && text.end <= (root.close || root.open.kind === "empty" ? root.end : code.length));
+			const content = code.substring(text.start, text.end);
+			const first = content.search(/\S/);
+			if (!insideRoot && first !== -1) {
+				problems.push({
+					start: text.start + first,
+					end: text.start + content.trimEnd().length,
+					message: "Text is not allowed outside the root element",
+					severity: "error",
+				});
+			}
+		}
+
+		return problems
+			.map((problem) => toValidationError(code, problem))
+			.sort((a, b) => a.line - b.line || a.column - b.column);
+	}
+
+	/**
+	 * Register linked tag editing for XML and HTML and the XML outline
+	 * Both follow the settings at request time
+	 */
+	static registerProviders(getSettings: () => MonacoPrettierSettings): monaco.IDisposable {
+		const disposables: monaco.IDisposable[] = [];
+
+		for (const language of ["xml", "html"]) {
+			disposables.push(monaco.languages.registerLinkedEditingRangeProvider(language, {
+				provideLinkedEditingRanges: (model, position) => {
+					if (!getSettings().xmlTagEditing) return null;
+					return getLinkedTagRanges(model, position, language === "html");
+				},
+			}));
+		}
+
+		// HTML already has an outline from Monaco's HTML service
+		disposables.push(monaco.languages.registerDocumentSymbolProvider("xml", {
+			displayName: "XML elements",
+			provideDocumentSymbols: (model) => {
+				if (!getSettings().xmlOutline) return [];
+				const { tags } = scan(model.getValue(), false);
+				return buildTree(tags, false).roots.map((element) => toDocumentSymbol(model, element));
+			},
+		}));
+
+		return {
+			dispose: () => disposables.forEach((disposable) => disposable.dispose()),
+		};
+	}
+
+	/**
+	 * Insert the closing tag after typing `>` of a start tag, and complete `</` with the innermost open element
+	 */
+	static attachTagAutoClose(editor: monaco.editor.ICodeEditor, isEnabled: () => boolean): monaco.IDisposable {
+		return editor.onDidChangeModelContent((event) => {
+			const model = editor.getModel();
+			if (!model || !isEnabled() || event.isUndoing || event.isRedoing || event.changes.length !== 1) return;
+
+			const language = model.getLanguageId();
+			if (language !== "xml" && language !== "html") return;
+
+			const change = event.changes[0];
+			if (change.text !== ">" && change.text !== "/") return;
+
+			const versionId = model.getVersionId();
+			const offset = change.rangeOffset + 1;
+			// Edits cannot be made while the change event is being delivered
+			window.setTimeout(() => {
+				if (model.isDisposed() || model.getVersionId() !== versionId || editor.getModel() !== model) return;
+				const insertion = getAutoCloseText(model.getValue(), offset, change.text, language === "html");
+				if (!insertion) return;
+
+				const position = model.getPositionAt(offset);
+				const range = new monaco.Range(position.lineNumber, position.column, position.lineNumber, position.column);
+				const cursor = change.text === ">" ? position : model.getPositionAt(offset + insertion.length);
+				editor.executeEdits("xml-auto-close", [{ range, text: insertion }], () => [
+					new monaco.Selection(cursor.lineNumber, cursor.column, cursor.lineNumber, cursor.column),
+				]);
+			}, 0);
+		});
+	}
+}
+
+/**
+ * Split a document into tags and text, reporting syntax problems
+ * HTML mode allows unquoted and valueless attributes, void elements and raw text elements
+ */
+function scan(text: string, html: boolean): { tags: XmlTag[]; texts: XmlText[]; problems: XmlProblem[] } {
+	const tags: XmlTag[] = [];
+	const texts: XmlText[] = [];
+	const problems: XmlProblem[] = [];
+	const entities = new Set(PREDEFINED_ENTITIES);
+	let pos = 0;
+
+	const problem = (start: number, end: number, message: string, severity: ValidationError["severity"] = "error") => {
+		problems.push({ start, end: Math.max(end, start + 1), message, severity });
+	};
+
+	const readName = (at: number): string | null => {
+		NAME.lastIndex = at;
+		return NAME.exec(text)?.[0] ?? null;
+	};
+
+	const skipWhitespace = () => {
+		while (pos < text.length && /\s/.test(text[pos])) pos++;
+	};
+
+	const checkEntities = (start: number, end: number) => {
+		if (html) return;
+		const pattern = /&([^;\s<&]*)(;?)/g;
+		const content = text.substring(start, end);
+		let match: RegExpExecArray | null;
+		while ((match = pattern.exec(content))) {
+			const at = start + match.index;
+			const name = match[1];
+			if (!match[2] || !name) {
+				problem(at, at + 1, "'&' must be escaped as '&amp;' or start an entity reference like '&name;'");
+			} else if (name.startsWith("#")) {
+				const codePoint = /^#[0-9]+$/.test(name) ? parseInt(name.substring(1), 10)
+					: /^#x[0-9a-fA-F]+$/.test(name) ? parseInt(name.substring(2), 16)
+					: NaN;
+				if (!(codePoint > 0 && codePoint <= 0x10ffff)) {
+					problem(at, at + match[0].length, `Invalid character reference '${match[0]}'`);
+				}
+			} else if (!entities.has(name)) {
+				problem(at, at + match[0].length, `Undefined entity '${match[0]}'`);
+			}
+		}
+	};
+
+	const pushText = (start: number, end: number) => {
+		if (end <= start) return;
+		texts.push({ start, end });
+		checkEntities(start, end);
+	};
+
+	while (pos < text.length) {
+		const lt = text.indexOf("<", pos);
+		if (lt === -1) {
+			pushText(pos, text.length);
+			break;
+		}
+		pushText(pos, lt);
+		pos = lt;
+
+		if (text.startsWith("<!--", lt)) {
+			const close = text.indexOf("-->", lt + 4);
+			if (close === -1) {
+				problem(lt, lt + 4, "Comment is not closed: expected '-->'");
+				break;
+			}
+			const doubleHyphen = text.indexOf("--", lt + 4);
+			if (!html && doubleHyphen < close) {
+				problem(doubleHyphen, doubleHyphen + 2, "'--' is not allowed inside comments");
+			}
+			pos = close + 3;
+			continue;
+		}
+
+		if (text.startsWith("<![CDATA[", lt)) {
+			const close = text.indexOf("]]>", lt + 9);
+			if (close === -1) {
+				problem(lt, lt + 9, "CDATA section is not closed: expected ']]>'");
+				break;
+			}
+			// CDATA counts as text for the outside-root check, without entity checks
+			texts.push({ start: lt, end: close + 3 });
+			pos = close + 3;
+			continue;
+		}
+
+		if (text.startsWith("<!", lt)) {
+			const bracket = text.indexOf("[", lt);
+			const gt = text.indexOf(">", lt);
+			// DOCTYPE with an internal subset ends at `]>`
+			const subsetEnd = bracket !== -1 && (gt === -1 || bracket < gt) ? text.substring(bracket).search(/\]\s*>/) : -1;
+			const close = subsetEnd !== -1 ? text.indexOf(">", bracket + subsetEnd) : gt;
+			if (close === -1) {
+				problem(lt, lt + 2, "Declaration is not closed: expected '>'");
+				break;
+			}
+			const declaration = text.substring(lt, close);
+			const entityPattern = /<!ENTITY\s+(?:%\s+)?([^\s>]+)/g;
+			let entity: RegExpExecArray | null;
+			while ((entity = entityPattern.exec(declaration))) {
+				entities.add(entity[1]);
+			}
+			pos = close + 1;
+			continue;
+		}
+
+		if (text.startsWith("<?", lt)) {
+			const close = text.indexOf("?>", lt + 2);
+			if (close === -1) {
+				problem(lt, lt + 2, "Processing instruction is not closed: expected '?>'");
+				break;
+			}
+			if (!html && /^<\?xml[\s?]/.test(text.substring(lt, lt + 6)) && text.substring(0, lt).replace(/^\uFEFF/, "") !== "") {
+				problem(lt, lt + 5, "The XML declaration must be at the very start of the document");
+			}
+			pos = close + 2;
+			continue;
+		}
+
+		if (text.startsWith("</", lt)) {
+			const name = readName(lt + 2);
+			if (!name) {
+				problem(lt, lt + 2, "Expected a tag name after '</'");
+				pos = lt + 2;
+				continue;
+			}
+			pos = lt + 2 + name.length;
+			skipWhitespace();
+			if (text[pos] === ">") {
+				pos++;
+			} else {
+				problem(lt, pos, `Closing tag '</${name}' is not closed: expected '>'`);
+			}
+			tags.push({ name, kind: "end", start: lt, end: pos, nameStart: lt + 2, nameEnd: lt + 2 + name.length });
+			continue;
+		}
+
+		const name = readName(lt + 1);
+		if (!name) {
+			if (!html) problem(lt, lt + 1, "'<' must be escaped as '&lt;' in text");
+			pushText(lt, lt + 1);
+			pos = lt + 1;
+			continue;
+		}
+
+		const tag: XmlTag = { name, kind: "start", start: lt, end: lt, nameStart: lt + 1, nameEnd: lt + 1 + name.length };
+		const attributes = new Set<string>();
+		pos = tag.nameEnd;
+
+		for (;;) {
+			const beforeWhitespace = pos;
+			skipWhitespace();
+			const separated = pos > beforeWhitespace;
+
+			if (text[pos] === ">") {
+				pos++;
+				break;
+			}
+			if (text.startsWith("/>", pos)) {
+				tag.kind = "empty";
+				pos += 2;
+				break;
+			}
+			if (pos >= text.length || text[pos] === "<") {
+				problem(lt, tag.nameEnd, `Tag '<${name}>' is not closed: expected '>'`);
+				break;
+			}
+
+			ATTRIBUTE_NAME.lastIndex = pos;
+			const attribute = ATTRIBUTE_NAME.exec(text)?.[0];
+			if (!attribute) {
+				problem(pos, pos + 1, `Unexpected '${text[pos]}' in tag '<${name}>'`);
+				pos++;
+				continue;
+			}
+
+			const attributeStart = pos;
+			const attributeEnd = pos + attribute.length;
+			if (!html && !separated) {
+				problem(attributeStart, attributeEnd, "Attributes must be separated by whitespace");
+			}
+			if (!html && !readName(attributeStart)?.length) {
+				problem(attributeStart, attributeEnd, `Invalid attribute name '${attribute}'`);
+			}
+			const key = html ? attribute.toLowerCase() : attribute;
+			if (attributes.has(key)) {
+				problem(attributeStart, attributeEnd, `Duplicate attribute '${attribute}'`);
+			}
+			attributes.add(key);
+			pos = attributeEnd;
+
+			skipWhitespace();
+			if (text[pos] !== "=") {
+				if (!html) problem(attributeStart, attributeEnd, `Attribute '${attribute}' has no value`);
+				continue;
+			}
+			pos++;
+			skipWhitespace();
+
+			const quote = text[pos];
+			if (quote === '"' || quote === "'") {
+				const close = text.indexOf(quote, pos + 1);
+				if (close === -1) {
+					problem(pos, pos + 1, `Value of attribute '${attribute}' is not closed`);
+					pos = text.length;
+					break;
+				}
+				const lessThan = text.indexOf("<", pos + 1);
+				if (!html && lessThan !== -1 && lessThan < close) {
+					problem(lessThan, lessThan + 1, "'<' is not allowed in attribute values");
+				}
+				checkEntities(pos + 1, close);
+				pos = close + 1;
+			} else {
+				const value = text.substring(pos).match(/^[^\s>]*/)![0];
+				if (!html) problem(pos, pos + Math.max(value.length, 1), `Value of attribute '${attribute}' must be quoted`);
+				pos += value.length;
+			}
+		}
+
+		tag.end = pos;
+		if (html && HTML_VOID_ELEMENTS.has(name.toLowerCase())) tag.kind = "empty";
+		tags.push(tag);
+
+		if (html && tag.kind === "start" && HTML_RAW_TEXT_ELEMENTS.has(name.toLowerCase())) {
+			const close = text.substring(pos).search(new RegExp(`</${name}[\\s>]`, "i"));
+			pos = close === -1 ? text.length : pos + close;
+		}
+	}
+
+	return { tags, texts, problems };
+}
+
+/**
+ * Pair start and end tags into elements
+ * An end tag that matches an outer element closes the elements opened inside it
+ */
+function buildTree(tags: XmlTag[], html: boolean): XmlTree {
+	const tree: XmlTree = { roots: [], open: [], unclosed: [], stray: [] };
+	const stack = tree.open;
+	const sameName = (a: string, b: string) => (html ? a.toLowerCase() === b.toLowerCase() : a === b);
+
+	for (const tag of tags) {
+		if (tag.kind === "end") {
+			let index = stack.length - 1;
+			while (index >= 0 && !sameName(stack[index].open.name, tag.name)) index--;
+			if (index === -1) {
+				tree.stray.push({ tag, expected: stack[stack.length - 1] ?? null });
+				continue;
+			}
+			for (const element of stack.splice(index + 1)) {
+				element.end = tag.start;
+				tree.unclosed.push(element);
+			}
+			const element = stack.pop()!;
+			element.close = tag;
+			element.end = tag.end;
+			continue;
+		}
+
+		const element: XmlElement = { open: tag, close: null, end: tag.end, children: [] };
+		const parent = stack[stack.length - 1];
+		if (parent) parent.children.push(element);
+		else tree.roots.push(element);
+		if (tag.kind === "start") stack.push(element);
+	}
+
+	const documentEnd = tags.length > 0 ? tags[tags.length - 1].end : 0;
+	for (const element of stack) {
+		element.end = Math.max(element.end, documentEnd);
+		tree.unclosed.push(element);
+	}
+	return tree;
+}
+
+/**
+ * The name ranges of a start tag and its end tag, when the cursor is on either name
+ */
+function getLinkedTagRanges(model: monaco.editor.ITextModel, position: monaco.Position, html: boolean): monaco.languages.LinkedEditingRanges | null {
+	const offset = model.getOffsetAt(position);
+	const { tags } = scan(model.getValue(), html);
+	const tree = buildTree(tags, html);
+
+	const find = (elements: XmlElement[]): XmlElement | null => {
+		for (const element of elements) {
+			const { open, close } = element;
+			if ((open.nameStart <= offset && offset <= open.nameEnd) || (close && close.nameStart <= offset && offset <= close.nameEnd)) {
+				return element;
+			}
+			if (open.start <= offset && offset <= element.end) {
+				const inner = find(element.children);
+				if (inner) return inner;
+			}
+		}
+		return null;
+	};
+
+	const element = find(tree.roots);
+	if (!element?.close || element.close.name !== element.open.name) return null;
+
+	const toRange = (tag: XmlTag) => {
+		const start = model.getPositionAt(tag.nameStart);
+		const end = model.getPositionAt(tag.nameEnd);
+		return new monaco.Range(start.lineNumber, start.column, end.lineNumber, end.column);
+	};
+	return {
+		ranges: [toRange(element.open), toRange(element.close)],
+		wordPattern: /[^\s<>\/"'=]*/,
+	};
+}
+
+/**
+ * Text to insert for auto-closing at `offset` (just after the typed character), or null
+ */
+function getAutoCloseText(text: string, offset: number, typed: string, html: boolean): string | null {
+	const before = text.substring(0, offset);
+	const after = text.substring(offset);
+
+	if (typed === ">") {
+		const { tags } = scan(before, html);
+		const tag = tags[tags.length - 1];
+		if (!tag || tag.kind !== "start" || tag.end !== offset) return null;
+		// Already closed right after the cursor
+		if (after.startsWith(`</${tag.name}`)) return null;
+		return `</${tag.name}>`;
+	}
+
+	if (!before.endsWith("</")) return null;
+	const { tags } = scan(before.substring(0, before.length - 2), html);
+	const open = buildTree(tags, html).open;
+	const element = open[open.length - 1];
+	if (!element || after.startsWith(element.open.name)) return null;
+	return `${element.open.name}>`;
+}
+
+function toDocumentSymbol(model: monaco.editor.ITextModel, element: XmlElement): monaco.languages.DocumentSymbol {
+	const toRange = (start: number, end: number) => {
+		const from = model.getPositionAt(start);
+		const to = model.getPositionAt(end);
+		return new monaco.Range(from.lineNumber, from.column, to.lineNumber, to.column);
+	};
+
+	// Show identifying attributes next to the element name
+	const openTag = model.getValue().substring(element.open.start, element.open.end);
+	const identifier = openTag.match(/\s(?:id|name|key)\s*=\s*(["'])(.*?)\1/);
+
+	return {
+		name: element.open.name,
+		detail: identifier ? identifier[2] : "",
+		kind: monaco.languages.SymbolKind.Field,
+		tags: [],
+		range: toRange(element.open.start, element.end),
+		selectionRange: toRange(element.open.nameStart, element.open.nameEnd),
+		children: element.children.map((child) => toDocumentSymbol(model, child)),
+	};
+}
+
+function toValidationError(code: string, problem: XmlProblem): ValidationError {
+	const toPosition = (offset: number) => {
+		const before = code.substring(0, offset);
+		const line = before.split("\n").length;
+		return { line, column: offset - before.lastIndexOf("\n") };
+	};
+	const start = toPosition(problem.start);
+	const end = toPosition(problem.end);
+	return { line: start.line, column: start.column, endLine: end.line, endColumn: end.column, message: problem.message, severity: problem.severity };
+}
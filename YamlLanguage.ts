@@ -0,0 +1,301 @@
+import * as monaco from "monaco-editor";
+import { Document, isMap, isScalar, isSeq, LineCounter, Node, parseAllDocuments, visit } from "yaml";
+import type { ValidationError } from "./ValidationManager";
+import { collectAlternatives, getSchemaAtPath, SchemaPath, validateAgainstSchema } from "./JsonSchemaValidator";
+import { uriToVaultPath } from "./VaultUri";
+
+/**
+ * Schema for a vault YAML file (path and content, for `# yaml-language-server: $schema=` modelines)
+ */
+export type YamlSchemaResolver = (path: string, content: string) => any | null;
+
+// A line with a mapping key: indentation, sequence dashes, key, rest of the line
+const KEY_LINE = /^(\s*)((?:-\s+)*)("[^"]*"|'[^']*'|[^\s#"'][^:#]*?)\s*:(?:\s+(.*))?$/;
+
+/**
+ * YAML validation (all syntax errors, duplicate keys, JSON Schema) and
+ * schema-driven completion and hovers
+ */
+export class YamlLanguage {
+	private static schemaResolver: YamlSchemaResolver | null = null;
+
+	/**
+	 * Set how schemas are found for YAML files (the JSON schema mappings)
+	 */
+	static setSchemaResolver(resolver: YamlSchemaResolver | null): void {
+		this.schemaResolver = resolver;
+	}
+
+	static getSchema(model: monaco.editor.ITextModel): any | null {
+		const path = uriToVaultPath(model.uri);
+		return path === null ? null : this.getSchemaForPath(path, model.getValue());
+	}
+
+	static getSchemaForPath(path: string, content: string): any | null {
+		return this.schemaResolver ? this.schemaResolver(path, content) : null;
+	}
+
+	/**
+	 * Report every syntax error, duplicate keys and (with a schema) schema violations
+	 */
+	static validate(code: string, schema: any | null): ValidationError[] {
+		const lineCounter = new LineCounter();
+		const documents = parseAllDocuments(code, { lineCounter, uniqueKeys: false, prettyErrors: false });
+		const errors: ValidationError[] = [];
+
+		const toError = (range: [number, number], message: string, severity: ValidationError["severity"]) => {
+			const start = lineCounter.linePos(range[0]);
+			const end = lineCounter.linePos(Math.max(range[1], range[0] + 1));
+			errors.push({ line: start.line, column: start.col, endLine: end.line, endColumn: end.col, message, severity });
+		};
+
+		for (const document of documents) {
+			for (const error of document.errors) {
+				toError(error.pos, error.message, "error");
+			}
+			for (const warning of document.warnings) {
+				toError(warning.pos, warning.message, "warning");
+			}
+
+			// Duplicate keys are legal for the parser with uniqueKeys off; report them as warnings
+			visit(document, {
+				Map(_, map) {
+					const seen = new Set<string>();
+					for (const pair of map.items) {
+						if (!isScalar(pair.key) || !pair.key.range) continue;
+						const key = String(pair.key.value);
+						if (seen.has(key)) {
+							toError([pair.key.range[0], pair.key.range[1]], `Duplicate key "${key}"`, "warning");
+						}
+						seen.add(key);
+					}
+				},
+			});
+
+			if (schema && document.errors.length === 0 && document.contents) {
+				let value: any;
+				try {
+					value = document.toJS({ maxAliasCount: -1 });
+				} catch {
+					continue;
+				}
+				for (const schemaError of validateAgainstSchema(value, schema)) {
+					const node = findNode(document, schemaError.path, schemaError.onKey);
+					if (node?.range) {
+						toError([node.range[0], node.range[1]], schemaError.message, "warning");
+					}
+				}
+			}
+		}
+
+		return errors;
+	}
+
+	/**
+	 * Register key/value completion and hover documentation from the file's schema
+	 */
+	static registerProviders(): monaco.IDisposable {
+		const completion = monaco.languages.registerCompletionItemProvider("yaml", {
+			provideCompletionItems: (model, position) => {
+				const schema = this.getSchema(model);
+				if (!schema) return { suggestions: [] };
+
+				const context = getCursorContext(model, position);
+				if (!context) return { suggestions: [] };
+
+				const word = model.getWordUntilPosition(position);
+				const range = new monaco.Range(position.lineNumber, word.startColumn, position.lineNumber, word.endColumn);
+				const suggestions: monaco.languages.CompletionItem[] = [];
+
+				if (context.valueOf === null) {
+					const parent = getSchemaAtPath(schema, context.path);
+					if (!parent) return { suggestions: [] };
+
+					const seen = new Set<string>();
+					for (const alternative of collectAlternatives(parent, schema)) {
+						for (const [name, propertySchema] of Object.entries<any>(alternative.properties ?? {})) {
+							if (seen.has(name)) continue;
+							seen.add(name);
+							const resolved = getSchemaAtPath(schema, [...context.path, name]) ?? propertySchema;
+							suggestions.push({
+								label: name,
+								kind: monaco.languages.CompletionItemKind.Property,
+								insertText: `${name}: `,
+								detail: describeType(resolved),
+								documentation: resolved.description,
+								range,
+							});
+						}
+					}
+				} else {
+					const valueSchema = getSchemaAtPath(schema, [...context.path, context.valueOf]);
+					if (!valueSchema) return { suggestions: [] };
+
+					const values = new Set<string>();
+					for (const alternative of collectAlternatives(valueSchema, schema)) {
+						for (const option of alternative.enum ?? []) values.add(String(option));
+						if (alternative.const !== undefined) values.add(String(alternative.const));
+						if (alternative.type === "boolean") {
+							values.add("true");
+							values.add("false");
+						}
+					}
+					for (const value of values) {
+						suggestions.push({
+							label: value,
+							kind: monaco.languages.CompletionItemKind.EnumMember,
+							insertText: value,
+							documentation: valueSchema.description,
+							range,
+						});
+					}
+				}
+
+				return { suggestions };
+			},
+		});
+
+		const hover = monaco.languages.registerHoverProvider("yaml", {
+			provideHover: (model, position) => {
+				const schema = this.getSchema(model);
+				if (!schema) return null;
+
+				const match = model.getLineContent(position.lineNumber).match(KEY_LINE);
+				if (!match) return null;
+
+				const keyStart = match[1].length + match[2].length + 1;
+				const keyEnd = keyStart + match[3].length;
+				if (position.column < keyStart || position.column > keyEnd) return null;
+
+				const context = getCursorContext(model, { lineNumber: position.lineNumber, column: keyStart });
+				if (!context) return null;
+
+				const key = unquote(match[3]);
+				const keySchema = getSchemaAtPath(schema, [...context.path, key]);
+				if (!keySchema) return null;
+
+				const contents: monaco.IMarkdownString[] = [{ value: `**${key}**: \`${describeType(keySchema)}\`` }];
+				if (keySchema.description) contents.push({ value: keySchema.description });
+				if (Array.isArray(keySchema.enum)) {
+					contents.push({ value: `Allowed values: ${keySchema.enum.map((option: any) => `\`${option}\``).join(", ")}` });
+				}
+
+				return {
+					range: new monaco.Range(position.lineNumber, keyStart, position.lineNumber, keyEnd),
+					contents,
+				};
+			},
+		});
+
+		return {
+			dispose: () => {
+				completion.dispose();
+				hover.dispose();
+			},
+		};
+	}
+}
+
+/**
+ * Find the node at a schema path: the key for errors about the key and for mapping values
+ * that are collections (underlining a whole block is noisy), otherwise the value
+ */
+function findNode(document: Document, path: SchemaPath, onKey = false): Node | null {
+	let node: any = document.contents;
+	let key: Node | null = null;
+
+	for (const segment of path) {
+		if (isMap(node)) {
+			const pair = node.items.find((item) => isScalar(item.key) && String(item.key.value) === String(segment));
+			if (!pair) return key ?? node;
+			key = pair.key as Node;
+			node = pair.value;
+		} else if (isSeq(node) && typeof segment === "number") {
+			node = node.items[segment];
+			key = null;
+		} else {
+			return key ?? node;
+		}
+	}
+
+	if ((onKey || isMap(node) || isSeq(node)) && key) return key;
+	return node ?? key;
+}
+
+/**
+ * Where the cursor is in the mapping structure, from indentation:
+ * the path of the enclosing mapping, and the key whose value is being typed (null when typing a key)
+ * Sequence items use index 0, since item schemas are uniform
+ */
+function getCursorContext(
+	model: monaco.editor.ITextModel,
+	position: monaco.IPosition
+): { path: SchemaPath; valueOf: string | null } | null {
+	const before = model.getLineContent(position.lineNumber).substring(0, position.column - 1);
+	if (before.trimStart().startsWith("#")) return null;
+
+	const path: SchemaPath = [];
+	let valueOf: string | null = null;
+
+	const lineStart = before.match(/^(\s*)((?:-\s+)*)/)!;
+	let indent = lineStart[1].length + lineStart[2].length;
+	// The cursor line's own dashes are items of the enclosing sequence
+	if (lineStart[2]) path.push(0);
+
+	const keyMatch = before.match(KEY_LINE);
+	if (keyMatch && keyMatch[4] !== undefined) {
+		valueOf = unquote(keyMatch[3]);
+	}
+
+	// A sequence dash at the current indentation may belong to a key at the same column
+	let inSequence = lineStart[2].length > 0;
+	if (inSequence) indent = lineStart[1].length;
+
+	for (let lineNumber = position.lineNumber - 1; lineNumber >= 1 && (indent > 0 || inSequence); lineNumber--) {
+		const line = model.getLineContent(lineNumber);
+		if (/^---/.test(line)) break;
+		if (!line.trim() || line.trimStart().startsWith("#")) continue;
+
+		const match = line.match(/^(\s*)((?:-\s+)*)(.*)$/)!;
+		const dashColumn = match[1].length;
+		const keyColumn = dashColumn + match[2].length;
+		const keyLine = line.match(KEY_LINE);
+		const opensBlock = keyLine && (keyLine[4] === undefined || /^[|>]/.test(keyLine[4]) || keyLine[4].startsWith("#"));
+
+		if (keyLine && opensBlock && (keyColumn < indent || (inSequence && keyColumn === indent && !match[2]))) {
+			path.unshift(unquote(keyLine[3]));
+			indent = keyColumn;
+			inSequence = false;
+			if (match[2]) {
+				path.unshift(0);
+				indent = dashColumn;
+				inSequence = true;
+			}
+		} else if (match[2] && dashColumn < indent && keyColumn >= indent) {
+			// A sibling key inside the same sequence item
+			path.unshift(0);
+			indent = dashColumn;
+			inSequence = true;
+		} else if (!inSequence && match[2] && dashColumn === indent) {
+			// A previous item of the same sequence
+			continue;
+		}
+	}
+
+	return { path, valueOf };
+}
+
+function unquote(key: string): string {
+	const trimmed = key.trim();
+	if ((trimmed.startsWith('"') && trimmed.endsWith('"')) || (trimmed.startsWith("'") && trimmed.endsWith("'"))) {
+		return trimmed.substring(1, trimmed.length - 1);
+	}
+	return trimmed;
+}
+
+function describeType(schema: any): string {
+	if (Array.isArray(schema.enum)) return schema.enum.map((option: any) => JSON.stringify(option)).join(" | ");
+	if (schema.type) return Array.isArray(schema.type) ? schema.type.join(" | ") : schema.type;
+	if (schema.anyOf || schema.oneOf) return "multiple types";
+	return "any";
+}
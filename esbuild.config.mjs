@@ -58,6 +58,26 @@ let cssPlugin = {
 
 const prod = process.argv[2] === "production";
 
+// Monaco editor and language service workers, loaded by MonacoWorkers.ts as blob URLs
+await esbuild.build({
+	banner: {
+		js: banner,
+	},
+	entryPoints: {
+		"editor.worker": "node_modules/monaco-editor/esm/vs/editor/editor.worker.js",
+		"ts.worker": "node_modules/monaco-editor/esm/vs/language/typescript/ts.worker.js",
+		"json.worker": "node_modules/monaco-editor/esm/vs/language/json/json.worker.js",
+		"css.worker": "node_modules/monaco-editor/esm/vs/language/css/css.worker.js",
+		"html.worker": "node_modules/monaco-editor/esm/vs/language/html/html.worker.js",
+	},
+	bundle: true,
+	format: "iife",
+	target: "es2020",
+	logLevel: "info",
+	outdir: "workers",
+	minify: prod,
+});
+
 const context = await esbuild.context({
 	banner: {
 		js: banner,
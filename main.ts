@@ -1,4 +1,4 @@
-import { Plugin } from "obsidian";
+import { Notice, Plugin, TFile } from "obsidian";
 import { MonacoPrettierView, VIEW_TYPE_MONACO_PRETTIER } from "./MonacoView";
 import { MonacoPrettierSettings, DEFAULT_SETTINGS } from "./settings";
 import { MonacoPrettierSettingTab } from "./SettingsTab";
@@ -6,11 +6,40 @@ import { CreateCodeFileModal } from "./CreateCodeFileModal";
 import { FenceEditModal } from "./FenceEditModal";
 import { ThemeManager } from "./ThemeManager";
 import { LinkPreviewManager } from "./LinkPreviewManager";
+import { MonacoDiffView, VIEW_TYPE_MONACO_DIFF } from "./MonacoDiffView";
+import { CompareFileSuggestModal } from "./CompareFileSuggestModal";
+import { PrettierFormatter } from "./PrettierFormatter";
+import { PrettierConfigResolver } from "./PrettierConfigResolver";
+import { EditorConfigResolver } from "./EditorConfigResolver";
+import { FormatterRegistry } from "./FormatterRegistry";
+import { ExternalFormatter } from "./ExternalFormatter";
+import { VaultTypeScriptSync } from "./VaultTypeScriptSync";
+import { TsConfigResolver } from "./TsConfigResolver";
+import { MonacoWorkers } from "./MonacoWorkers";
+import { JsonSchemaManager } from "./JsonSchemaManager";
+import { YamlLanguage } from "./YamlLanguage";
+import { TomlLanguage } from "./TomlLanguage";
+import { XmlLanguage } from "./XmlLanguage";
+import { SqlLanguage } from "./SqlLanguage";
+import { ShellLinter } from "./ShellLinter";
+import { DiagnosticsService } from "./DiagnosticsService";
+import { ProblemsView, VIEW_TYPE_PROBLEMS } from "./ProblemsView";
+import { OPEN_AT_LINE_ACTION, VaultValidationScan } from "./VaultValidationScan";
+import { ValidationManager } from "./ValidationManager";
+import { TreeSitterManager } from "./TreeSitterManager";
 
 export default class MonacoPrettierPlugin extends Plugin {
 	settings: MonacoPrettierSettings;
 	themeManager: ThemeManager;
 	linkPreviewManager: LinkPreviewManager | null = null;
+	vaultTypeScriptSync: VaultTypeScriptSync;
+	jsonSchemaManager: JsonSchemaManager;
+	prettierConfigResolver: PrettierConfigResolver;
+	editorConfigResolver: EditorConfigResolver;
+	tsConfigResolver: TsConfigResolver;
+	editorConfigStatusEl: HTMLElement;
+	problemsStatusEl: HTMLElement;
+	vaultValidationScan: VaultValidationScan;
 	private logBuffer: string[] = [];
 	private originalConsole = {
 		log: console.log,
@@ -19,6 +48,9 @@ export default class MonacoPrettierPlugin extends Plugin {
 	};
 
 	async onload() {
+		// Start language services in web workers before any editor or model is created
+		await MonacoWorkers.install(this);
+
 		await this.loadSettings();
 		
 		// Enable console logging to file if enabled in settings
@@ -43,12 +75,122 @@ export default class MonacoPrettierPlugin extends Plugin {
 			this.linkPreviewManager.start();
 		}
 
+		// Sync vault TypeScript/JavaScript files into Monaco once the vault is indexed
+		this.vaultTypeScriptSync = new VaultTypeScriptSync(this.app, this);
+		this.app.workspace.onLayoutReady(() => {
+			if (this.settings.vaultTypeScriptProject) {
+				this.vaultTypeScriptSync.start();
+			}
+		});
+
+		// Offline JSON schemas (bundled, mapped in settings and `$schema` references)
+		this.jsonSchemaManager = new JsonSchemaManager(this.app, this);
+		this.jsonSchemaManager.start();
+
+		// YAML schema validation, completion and hovers use the same schema mappings
+		YamlLanguage.setSchemaResolver((path, content) => this.jsonSchemaManager.getSchemaFor(path, content));
+		const yamlProviders = YamlLanguage.registerProviders();
+		this.register(() => yamlProviders.dispose());
+
+		// TOML highlighting (Monaco only has INI)
+		const tomlLanguage = TomlLanguage.register();
+		this.register(() => tomlLanguage.dispose());
+
+		// Linked tag renaming for XML/HTML and the XML outline
+		const xmlProviders = XmlLanguage.registerProviders(() => this.settings);
+		this.register(() => xmlProviders.dispose());
+
+		// SQL keyword, table and column completion from the file's CREATE TABLE statements
+		const sqlProviders = SqlLanguage.registerProviders(() => this.settings);
+		this.register(() => sqlProviders.dispose());
+
+		// Quick fixes for the shell linter's warnings
+		const shellCodeActions = ShellLinter.registerCodeActions();
+		this.register(() => shellCodeActions.dispose());
+
+		// Validators feeding the shared markers and inline messages (earlier ones win on overlap)
+		for (const provider of [ValidationManager.diagnosticsProvider, TreeSitterManager.diagnosticsProvider, ShellLinter.diagnosticsProvider]) {
+			const registration = DiagnosticsService.registerProvider(provider);
+			this.register(() => registration.dispose());
+		}
+
 		// Register the Monaco Prettier view
 		this.registerView(
 			VIEW_TYPE_MONACO_PRETTIER,
 			(leaf) => new MonacoPrettierView(leaf, this)
 		);
 
+		// Register the Monaco diff view
+		this.registerView(
+			VIEW_TYPE_MONACO_DIFF,
+			(leaf) => new MonacoDiffView(leaf, this)
+		);
+
+		// Register the Problems side panel
+		this.registerView(
+			VIEW_TYPE_PROBLEMS,
+			(leaf) => new ProblemsView(leaf, this)
+		);
+
+		// Resolve .prettierrc / .prettierignore from the vault when formatting
+		this.prettierConfigResolver = new PrettierConfigResolver(this.app);
+		PrettierFormatter.setConfigResolver(this.prettierConfigResolver);
+
+		// Resolve .editorconfig for indentation, line endings and whitespace rules
+		this.editorConfigResolver = new EditorConfigResolver(this.app);
+		PrettierFormatter.setEditorConfigResolver(this.editorConfigResolver);
+		FormatterRegistry.setEditorConfigResolver(this.editorConfigResolver);
+
+		// Run user-configured command line formatters (desktop only)
+		FormatterRegistry.setExternalFormatter(new ExternalFormatter(this.app));
+
+		// Resolve tsconfig.json / jsconfig.json for the TypeScript and JavaScript services
+		this.tsConfigResolver = new TsConfigResolver(this.app);
+		const onConfigFileChange = (path: string) => {
+			if (!TsConfigResolver.isConfigFile(path)) return;
+			this.tsConfigResolver.clearCache();
+			this.app.workspace.getActiveViewOfType(MonacoPrettierView)?.applyTsConfig();
+		};
+		this.registerEvent(this.app.vault.on("modify", (file) => onConfigFileChange(file.path)));
+		this.registerEvent(this.app.vault.on("create", (file) => onConfigFileChange(file.path)));
+		this.registerEvent(this.app.vault.on("delete", (file) => onConfigFileChange(file.path)));
+		this.registerEvent(this.app.vault.on("rename", (file, oldPath) => {
+			onConfigFileChange(TsConfigResolver.isConfigFile(oldPath) ? oldPath : file.path);
+		}));
+
+		// Status bar indicator for the indentation / line ending in effect
+		this.editorConfigStatusEl = this.addStatusBarItem();
+		this.editorConfigStatusEl.hide();
+		this.registerEvent(
+			this.app.workspace.on("active-leaf-change", (leaf) => {
+				if (leaf?.view instanceof MonacoPrettierView) {
+					leaf.view.updateStatusBar();
+					leaf.view.applyTsConfig();
+				} else {
+					this.editorConfigStatusEl.hide();
+				}
+			})
+		);
+
+		// Status bar badge with the problem counts of the open code editors
+		this.problemsStatusEl = this.addStatusBarItem();
+		this.problemsStatusEl.style.cursor = "pointer";
+		this.problemsStatusEl.addEventListener("click", () => ProblemsView.open(this));
+		this.updateProblemsStatusBar();
+		this.register(ProblemsView.onDidChange(() => this.updateProblemsStatusBar()));
+
+		// Register Prettier range formatting for "Format selection"
+		const rangeFormatting = PrettierFormatter.registerRangeFormattingProvider(() => this.settings);
+		this.register(() => rangeFormatting.dispose());
+
+		// Register Prettier format on type (enabled per editor by the formatOnType option)
+		const onTypeFormatting = PrettierFormatter.registerOnTypeFormattingProvider(() => this.settings);
+		this.register(() => onTypeFormatting.dispose());
+
+		// Open go to definition / references targets in other vault files
+		const editorOpener = MonacoPrettierView.registerEditorOpener(this);
+		this.register(() => editorOpener.dispose());
+
 		// Register file extensions for Monaco editor (one by one to handle conflicts)
 		const registeredExtensions: string[] = [];
 		const failedExtensions: string[] = [];
@@ -86,7 +228,7 @@ export default class MonacoPrettierPlugin extends Plugin {
 		// Add command to format current file
 		this.addCommand({
 			id: "format-with-prettier",
-			name: "Format current file with Prettier",
+			name: "Format current file",
 			callback: () => {
 				const view = this.app.workspace.getActiveViewOfType(MonacoPrettierView);
 				if (view) {
@@ -95,6 +237,110 @@ export default class MonacoPrettierPlugin extends Plugin {
 			},
 		});
 
+		// Add command to format only the selection
+		this.addCommand({
+			id: "format-selection-with-prettier",
+			name: "Format selection with Prettier",
+			callback: () => {
+				const view = this.app.workspace.getActiveViewOfType(MonacoPrettierView);
+				if (view) {
+					view.formatSelection();
+				}
+			},
+		});
+
+		// Add command to preview formatting as a diff before applying it
+		this.addCommand({
+			id: "format-with-preview",
+			name: "Format with preview",
+			callback: () => {
+				const view = this.app.workspace.getActiveViewOfType(MonacoPrettierView);
+				if (view) {
+					view.formatDocumentWithPreview();
+				}
+			},
+		});
+
+		// Add command to rename a symbol across vault files
+		this.addCommand({
+			id: "rename-symbol",
+			name: "Rename symbol in vault",
+			callback: () => {
+				const view = this.app.workspace.getActiveViewOfType(MonacoPrettierView);
+				if (view) {
+					view.renameSymbol();
+				}
+			},
+		});
+
+		// Add command to compare the current file against another file or the clipboard
+		this.addCommand({
+			id: "compare-current-file",
+			name: "Compare current file with…",
+			checkCallback: (checking) => {
+				const activeFile = this.app.workspace.getActiveFile();
+				if (!activeFile || !this.isCodeFile(activeFile.extension)) return false;
+				if (!checking) {
+					new CompareFileSuggestModal(this, true, activeFile, (source) => {
+						MonacoDiffView.open(this, source, activeFile);
+					}).open();
+				}
+				return true;
+			},
+		});
+
+		// Add command to compare any two files
+		this.addCommand({
+			id: "compare-two-files",
+			name: "Compare two files",
+			callback: () => {
+				new CompareFileSuggestModal(this, false, null, (first) => {
+					if (first.type !== "file") return;
+					new CompareFileSuggestModal(this, true, first.file, (second) => {
+						// The clipboard always goes on the read-only left side
+						if (second.type === "clipboard") {
+							MonacoDiffView.open(this, second, first.file);
+						} else {
+							MonacoDiffView.open(this, first, second.file);
+						}
+					}, "Select the file to compare against").open();
+				}, "Select the first file").open();
+			},
+		});
+
+		// Add command to open the Problems panel
+		this.addCommand({
+			id: "open-problems-panel",
+			name: "Open problems panel",
+			callback: () => ProblemsView.open(this),
+		});
+
+		// Validate every code file in the vault (settings narrow the folders)
+		this.vaultValidationScan = new VaultValidationScan(this);
+		this.addCommand({
+			id: "validate-vault-files",
+			name: "Validate vault files (show in problems panel)",
+			callback: () => this.vaultValidationScan.run("panel"),
+		});
+		this.addCommand({
+			id: "validate-vault-files-report",
+			name: "Validate vault files (write markdown report)",
+			callback: () => this.vaultValidationScan.run("report"),
+		});
+
+		// Line links of the validation report: obsidian://monaco-prettier-open?file=<path>&line=<n>&column=<n>
+		this.registerObsidianProtocolHandler(OPEN_AT_LINE_ACTION, (params) => {
+			const file = this.app.vault.getAbstractFileByPath(params.file ?? "");
+			if (!(file instanceof TFile)) {
+				new Notice(`File not found: ${params.file}`);
+				return;
+			}
+			MonacoPrettierView.openAt(this, file, {
+				lineNumber: Math.max(parseInt(params.line, 10) || 1, 1),
+				column: Math.max(parseInt(params.column, 10) || 1, 1),
+			});
+		});
+
 		// Add command to create new code file
 		this.addCommand({
 			id: "create-code-file",
@@ -222,6 +468,20 @@ export default class MonacoPrettierPlugin extends Plugin {
 		return this.settings.fileExtensions.includes(extension);
 	}
 
+	/**
+	 * Show the error and warning counts of the open code editors (hidden when none are open)
+	 */
+	private updateProblemsStatusBar(): void {
+		if (!ProblemsView.hasOpenEditors()) {
+			this.problemsStatusEl.hide();
+			return;
+		}
+		const counts = ProblemsView.countProblems();
+		this.problemsStatusEl.setText(`⊗ ${counts.error}  ⚠ ${counts.warning}`);
+		this.problemsStatusEl.setAttr("aria-label", `${counts.error} error(s), ${counts.warning} warning(s) in open code editors. Click to open the problems panel.`);
+		this.problemsStatusEl.show();
+	}
+
 	async onunload() {
 		// Restore original console methods
 		console.log = this.originalConsole.log;
@@ -231,6 +491,16 @@ export default class MonacoPrettierPlugin extends Plugin {
 		// Flush remaining logs
 		await this.flushLogs();
 		
+		PrettierFormatter.setConfigResolver(null);
+		PrettierFormatter.setEditorConfigResolver(null);
+		FormatterRegistry.setEditorConfigResolver(null);
+		FormatterRegistry.setExternalFormatter(null);
+		
+		this.vaultTypeScriptSync.stop();
+		this.jsonSchemaManager.stop();
+		YamlLanguage.setSchemaResolver(null);
+		MonacoWorkers.uninstall();
+		
 		// Stop link preview manager
 		if (this.linkPreviewManager) {
 			this.linkPreviewManager.stop();
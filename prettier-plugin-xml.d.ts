@@ -0,0 +1,8 @@
+// @prettier/plugin-xml only exposes its types through package "exports",
+// which the "node" module resolution used by this project does not read
+declare module "@prettier/plugin-xml" {
+	import type { Plugin } from "prettier";
+
+	const plugin: Plugin;
+	export default plugin;
+}
@@ -10,6 +10,33 @@ export interface TreeSitterLanguageParser {
 	lastUpdated?: number;
 }
 
+/**
+ * Formatter a file extension is bound to
+ * "auto" tries Prettier, then a built-in formatter, then the configured command
+ */
+export type FormatterKind = "auto" | "prettier" | "builtin" | "command" | "none";
+
+export interface FormatterBinding {
+	formatter: FormatterKind;
+	// Command line for "command" bindings (also used by "auto" as a last resort)
+	command: string;
+}
+
+/**
+ * JSON schema applied to vault files matching a glob
+ */
+export interface JsonSchemaMapping {
+	// Glob: patterns with a "/" are relative to the vault root, others match file names anywhere
+	pattern: string;
+	// Vault path of the schema file
+	schema: string;
+}
+
+/**
+ * SQL dialects the validator can parse
+ */
+export type SqlDialect = "postgresql" | "mysql" | "sqlite" | "transactsql" | "bigquery";
+
 export interface MonacoPrettierSettings {
 	// File extensions to handle
 	fileExtensions: string[];
@@ -30,11 +57,28 @@ export interface MonacoPrettierSettings {
 	enableTreeSitter: boolean;
 	treeSitterParsers: Record<string, TreeSitterLanguageParser>;
 	linkPreviews: boolean;
+	vaultTypeScriptProject: boolean;
+	bundledJsonSchemas: boolean;
+	jsonSchemaMappings: JsonSchemaMapping[];
+	xmlTagEditing: boolean;
+	xmlOutline: boolean;
+	// Default SQL dialect; a `-- dialect: <name>` comment at the top of a file overrides it
+	sqlDialect: SqlDialect;
+	shellLinting: boolean;
+	// Vault validation scan: globs of the files to scan (empty = all code files) and to skip
+	validationScanInclude: string[];
+	validationScanExclude: string[];
 	autoDetectLanguage: boolean;
 	enableConsoleLogging: boolean;
 	
 	// Prettier settings
+	usePrettierConfigFiles: boolean;
+	useEditorConfig: boolean;
+	prettierXmlPlugin: boolean;
+	prettierPhpPlugin: boolean;
+	prettierSqlPlugin: boolean;
 	formatOnSave: boolean;
+	formatOnSaveTimeout: number;
 	formatOnType: boolean;
 	tabWidth: number;
 	useTabs: boolean;
@@ -44,6 +88,10 @@ export interface MonacoPrettierSettings {
 	bracketSpacing: boolean;
 	arrowParens: "always" | "avoid";
 	printWidth: number;
+
+	// Formatters for languages Prettier does not cover, keyed by file extension
+	formatters: Record<string, FormatterBinding>;
+	externalFormatterTimeout: number;
 	
 	// Theme
 	selectedTheme: string;
@@ -170,10 +218,25 @@ export const DEFAULT_SETTINGS: MonacoPrettierSettings = {
 		}
 	},
 	linkPreviews: true,
+	vaultTypeScriptProject: true,
+	bundledJsonSchemas: true,
+	jsonSchemaMappings: [],
+	xmlTagEditing: true,
+	xmlOutline: true,
+	sqlDialect: "postgresql",
+	shellLinting: true,
+	validationScanInclude: [],
+	validationScanExclude: ["**/node_modules/**"],
 	autoDetectLanguage: true,
 	enableConsoleLogging: false,
 	
+	usePrettierConfigFiles: true,
+	useEditorConfig: true,
+	prettierXmlPlugin: true,
+	prettierPhpPlugin: true,
+	prettierSqlPlugin: true,
 	formatOnSave: true,
+	formatOnSaveTimeout: 3000,
 	formatOnType: false,
 	tabWidth: 2,
 	useTabs: false,
@@ -183,6 +246,9 @@ export const DEFAULT_SETTINGS: MonacoPrettierSettings = {
 	bracketSpacing: true,
 	arrowParens: "always",
 	printWidth: 80,
+
+	formatters: {},
+	externalFormatterTimeout: 10000,
 	
 	selectedTheme: "vs-dark",
 	transparentBackground: false,